@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse, toClientPath } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody, resolveExistingFiles } from '@/lib/file-ops';
+import { COLOR_LABELS, type Annotation, type ColorLabel } from '@/lib/fs-items';
+import { MAX_TAG_LENGTH, getAnnotationStore, type AnnotationPatch } from '@/lib/annotations';
+
+function parseTags(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    throw new FileOpError(`${field} must be an array of strings`);
+  }
+  const tags = (value as string[]).map(tag => tag.trim()).filter(tag => tag !== '');
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new FileOpError(`Tags must be at most ${MAX_TAG_LENGTH} characters`);
+  }
+  return [...new Set(tags)];
+}
+
+function parsePatch(body: Record<string, unknown>): AnnotationPatch {
+  const patch: AnnotationPatch = {};
+  if (body.rating !== undefined) {
+    if (typeof body.rating !== 'number' || !Number.isInteger(body.rating) || body.rating < 0 || body.rating > 5) {
+      throw new FileOpError('rating must be an integer between 0 and 5');
+    }
+    patch.rating = body.rating;
+  }
+  if (body.label !== undefined) {
+    if (body.label !== null && !COLOR_LABELS.includes(body.label as ColorLabel)) {
+      throw new FileOpError(`label must be null or one of: ${COLOR_LABELS.join(', ')}`);
+    }
+    patch.label = body.label as ColorLabel | null;
+  }
+  if (body.favorite !== undefined) {
+    if (typeof body.favorite !== 'boolean') {
+      throw new FileOpError('favorite must be a boolean');
+    }
+    patch.favorite = body.favorite;
+  }
+  if (body.tags !== undefined) patch.tags = parseTags(body.tags, 'tags');
+  if (body.addTags !== undefined) patch.addTags = parseTags(body.addTags, 'addTags');
+  if (body.removeTags !== undefined) patch.removeTags = parseTags(body.removeTags, 'removeTags');
+  if (Object.keys(patch).length === 0) {
+    throw new FileOpError('Nothing to update');
+  }
+  return patch;
+}
+
+// 修改文件的评分、颜色标签、收藏和标签（保存在应用数据目录中，不修改文件）
+// 请求体：{ paths: string[], rating?: 0-5, label?: 颜色 | null, favorite?: boolean,
+//          tags?: string[]（替换全部标签）, addTags?: string[], removeTags?: string[] }
+// 只修改请求中给出的字段；返回 { annotations: { [path]: Annotation } }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const patch = parsePatch(body);
+    const files = await resolveExistingFiles(body.paths);
+    const updated = await getAnnotationStore().update(files.map(file => file.absolutePath), patch);
+
+    const annotations: Record<string, Annotation> = {};
+    for (const [absolutePath, annotation] of updated) {
+      annotations[toClientPath(absolutePath)] = annotation;
+    }
+    return NextResponse.json({ annotations });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    console.error('Error updating annotations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse, resolveLibraryPath, toClientPath } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody, resolveExistingFiles } from '@/lib/file-ops';
+import { getAnnotationStore } from '@/lib/annotations';
+import { getXmpSidecarPath, writeXmpSidecar } from '@/lib/xmp-sidecar';
+
+// 为文件导出 XMP 附属文件（评分、颜色标签和标签），供 Lightroom 等软件读取
+// 请求体：{ paths: string[] }
+// 返回 { written: string[], skipped: string[] }（附属文件路径）；
+// 已存在其他软件生成的附属文件，或多个文件对应同一个附属文件（a.jpg 和 a.png）时跳过
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const files = await resolveExistingFiles(body.paths);
+    const store = getAnnotationStore();
+
+    // 先校验全部附属文件的路径（跟随已存在的同名符号链接后仍需在图库内），避免只写出一部分
+    const sidecars = await Promise.all(files.map(async ({ absolutePath }) => ({
+      absolutePath,
+      sidecar: (await resolveLibraryPath(getXmpSidecarPath(absolutePath))).absolutePath,
+    })));
+
+    const written: string[] = [];
+    const skipped: string[] = [];
+    const seen = new Set<string>();
+    for (const { absolutePath, sidecar } of sidecars) {
+      if (seen.has(sidecar)) {
+        skipped.push(toClientPath(sidecar));
+        continue;
+      }
+      seen.add(sidecar);
+      const ok = await writeXmpSidecar(sidecar, await store.get(absolutePath));
+      (ok ? written : skipped).push(toClientPath(sidecar));
+    }
+    return NextResponse.json({ written, skipped });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    console.error('Error exporting XMP sidecars:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
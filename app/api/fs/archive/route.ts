@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse } from '@/lib/file-ops';
+import { getAttachmentDisposition } from '@/lib/http';
+import { collectArchiveEntries, getArchiveName, resolveArchiveSources } from '@/lib/archive';
+import { createZipResponseStream } from '@/lib/zip-writer';
+
+// 以 ZIP 格式打包下载文件和目录（边读边发送）
+// 参数：path（可重复，多个条目）、recursive=1（包含子目录）
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const recursive = searchParams.get('recursive') === '1';
+    const sources = await resolveArchiveSources(searchParams.getAll('path'));
+
+    const stream = createZipResponseStream(collectArchiveEntries(sources, recursive));
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': getAttachmentDisposition(getArchiveName(sources)),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    console.error('Error creating archive:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
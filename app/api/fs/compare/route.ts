@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse } from '@/lib/file-ops';
+import { UnsupportedImageError } from '@/lib/image-decoder';
+import { getImagePool, ImageTaskAbortedError, imageTaskAbortedResponse } from '@/lib/image-pool';
+import { ArchiveError, archiveErrorResponse } from '@/lib/zip-archive';
+import { DEFAULT_DIFF_THRESHOLD, compareImages, resolveCompareSource, type CompareStats } from '@/lib/image-compare';
+
+// 差异统计放在响应头中，差异图和统计数据只需计算一次
+function statsHeaders(stats: CompareStats): Record<string, string> {
+  return {
+    'X-Compare-Width': String(stats.width),
+    'X-Compare-Height': String(stats.height),
+    'X-Compare-Mean-Abs-Diff': String(stats.meanAbsDiff),
+    'X-Compare-Changed-Percent': String(stats.changedPercent),
+    'X-Compare-Max-Diff': String(stats.maxDiff),
+    'X-Compare-Threshold': String(stats.threshold),
+    'X-Compare-Resized': String(stats.resized),
+    'X-Compare-Downscaled': String(stats.downscaled),
+  };
+}
+
+// 比较两张图片的像素差异
+// 查询参数：
+//   a / b      要比较的两张图片，可以是压缩包内的条目（B 的尺寸不同时缩放到 A 的尺寸）
+//   threshold  像素视为“有变化”的最小通道差值（0-255），默认 10
+//   format     png（默认，返回差异图，统计数据在 X-Compare-* 响应头中）| json（只返回 CompareStats）
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const thresholdParam = searchParams.get('threshold');
+    const threshold = thresholdParam === null ? DEFAULT_DIFF_THRESHOLD : Number(thresholdParam);
+    if (!Number.isInteger(threshold) || threshold < 0 || threshold > 255) {
+      throw new FileOpError('threshold must be an integer between 0 and 255');
+    }
+    const format = searchParams.get('format') ?? 'png';
+    if (format !== 'png' && format !== 'json') {
+      throw new FileOpError('format must be png or json');
+    }
+
+    const openA = await resolveCompareSource(searchParams.get('a'));
+    const openB = await resolveCompareSource(searchParams.get('b'));
+    const { stats, diff } = await getImagePool().run(
+      'viewer',
+      async () => compareImages(await openA(), await openB(), threshold, format === 'png'),
+      request.signal
+    );
+
+    if (!diff) {
+      return NextResponse.json(stats, {
+        headers: { 'Cache-Control': 'no-store' },
+      });
+    }
+    return new NextResponse(new Uint8Array(diff), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': String(diff.length),
+        'Cache-Control': 'no-store',
+        ...statsHeaders(stats),
+      },
+    });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    if (error instanceof UnsupportedImageError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 415 }
+      );
+    }
+    if (error instanceof ArchiveError) {
+      return archiveErrorResponse(error);
+    }
+    if (error instanceof ImageTaskAbortedError) {
+      return imageTaskAbortedResponse();
+    }
+    console.error('Error comparing images:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
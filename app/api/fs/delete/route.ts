@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody, trashEntries } from '@/lib/file-ops';
+
+// 删除到回收站（图库根目录下的 .webpicviewer-trash）
+// 请求体：{ paths: string[] }；返回 { trashed: [{ id, path }] }，id 用于 /api/fs/restore 撤销
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const trashed = await trashEntries(body.paths);
+    return NextResponse.json({ trashed });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    console.error('Error deleting:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
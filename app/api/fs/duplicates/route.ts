@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import { resolveLibraryPath, PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody } from '@/lib/file-ops';
+import {
+  DEFAULT_THRESHOLD,
+  MAX_THRESHOLD,
+  cancelDuplicateScan,
+  getDuplicateScan,
+  startDuplicateScan,
+} from '@/lib/duplicate-finder';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof PathAccessError) {
+    return forbiddenResponse(error);
+  }
+  if (error instanceof FileOpError) {
+    return fileOpErrorResponse(error);
+  }
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+function scanNotFound() {
+  return NextResponse.json(
+    { error: 'Scan not found' },
+    { status: 404 }
+  );
+}
+
+// 开始查找目录（包括子目录）中重复和相似的图片
+// 请求体：{ path, threshold? }，threshold 为汉明距离阈值（0-20，0 表示只找内容几乎一致的图片）
+// 返回扫描任务 DuplicateScan，之后用 GET ?id= 查询进度和结果
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    if (typeof body.path !== 'string' || body.path === '') {
+      throw new FileOpError('Missing path');
+    }
+    const threshold = body.threshold ?? DEFAULT_THRESHOLD;
+    if (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < 0 || threshold > MAX_THRESHOLD) {
+      throw new FileOpError(`threshold must be an integer between 0 and ${MAX_THRESHOLD}`);
+    }
+
+    // 解析为图库根目录内的绝对路径
+    const { absolutePath } = await resolveLibraryPath(body.path);
+    const stat = await fs.stat(absolutePath).catch(() => null);
+    if (!stat) {
+      throw new FileOpError('Directory not found', 404, 'NOT_FOUND');
+    }
+    if (!stat.isDirectory()) {
+      throw new FileOpError('Path is not a directory');
+    }
+
+    return NextResponse.json(startDuplicateScan(absolutePath, threshold));
+  } catch (error) {
+    return errorResponse(error, 'starting duplicate scan');
+  }
+}
+
+// 查询扫描任务的进度和结果
+export async function GET(request: NextRequest) {
+  const scan = getDuplicateScan(request.nextUrl.searchParams.get('id') ?? '');
+  if (!scan) return scanNotFound();
+  return NextResponse.json(scan, {
+    headers: {
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+// 取消扫描
+export async function DELETE(request: NextRequest) {
+  const scan = cancelDuplicateScan(request.nextUrl.searchParams.get('id') ?? '');
+  if (!scan) return scanNotFound();
+  return NextResponse.json(scan);
+}
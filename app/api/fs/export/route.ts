@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody } from '@/lib/file-ops';
+import { UnsupportedImageError } from '@/lib/image-decoder';
+import { getAttachmentDisposition } from '@/lib/http';
+import { ImageTaskAbortedError, imageTaskAbortedResponse } from '@/lib/image-pool';
+import { createZipResponseStream } from '@/lib/zip-writer';
+import {
+  EXPORT_FORMATS,
+  exportToDirectory,
+  getExportArchiveName,
+  getExportName,
+  parseExportOptions,
+  renderExport,
+  renderExportEntries,
+  resolveExportSource,
+} from '@/lib/image-export';
+
+// 导出缩放/转换格式后的图片
+// 请求体：{ paths: [...], maxWidth?, maxHeight?, format?: 'jpeg' | 'webp' | 'avif' | 'png',
+//          quality?: 1-100, metadata?: 'keep' | 'strip-gps' | 'strip', destination? }
+// 指定 destination 时写入该目录并返回新文件路径；否则直接下载，多张图片打包为 ZIP（边生成边发送）
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const options = parseExportOptions(body);
+    if (!Array.isArray(body.paths) || body.paths.length === 0) {
+      throw new FileOpError('Missing paths');
+    }
+
+    if (body.destination !== undefined) {
+      const exported = await exportToDirectory(body.paths, body.destination, options, request.signal);
+      return NextResponse.json({ exported });
+    }
+
+    if (body.paths.length > 1) {
+      const sources = await Promise.all(body.paths.map(resolveExportSource));
+      return new NextResponse(createZipResponseStream(renderExportEntries(sources, options, request.signal)), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': getAttachmentDisposition(getExportArchiveName(sources)),
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+    const source = await resolveExportSource(body.paths[0]);
+    const output = await renderExport(source, options, request.signal);
+    return new NextResponse(new Uint8Array(output), {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_FORMATS[options.format].contentType,
+        'Content-Length': String(output.length),
+        'Content-Disposition': getAttachmentDisposition(getExportName(source, options.format)),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    if (error instanceof UnsupportedImageError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 415 }
+      );
+    }
+    if (error instanceof ImageTaskAbortedError) {
+      return imageTaskAbortedResponse();
+    }
+    console.error('Error exporting image:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
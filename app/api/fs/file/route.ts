@@ -1,12 +1,113 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs/promises';
+import type { Stats } from 'fs';
 import path from 'path';
-import os from 'os';
+import { Readable } from 'stream';
+import { getAttachmentDisposition, getEntityTag, isNotModified, sendFile } from '@/lib/http';
+import { resolveLibraryPath, PathAccessError, forbiddenResponse } from '@/lib/library';
+import { getContentType, isImageExt, needsTranscode } from '@/lib/image-formats';
+import { openImage, UnsupportedImageError } from '@/lib/image-decoder';
+import { getImagePool, ImageTaskAbortedError, imageTaskAbortedResponse } from '@/lib/image-pool';
+import { getThumbnailCache } from '@/lib/thumbnail-cache';
+import {
+  ArchiveError,
+  archiveErrorResponse,
+  getArchiveEntityTag,
+  openArchiveEntryStream,
+  readArchiveEntry,
+  resolveArchiveFile,
+  toArchiveCacheKey,
+  type ArchiveLocation,
+  type ZipFileEntry,
+} from '@/lib/zip-archive';
+import sharp from 'sharp';
+
+// 转码后的浏览器可显示版本：带透明度的输出 PNG，其余输出 JPEG。
+// 按 EXIF 方向摆正；内嵌 ICC 配置文件的 RGB 图片（Adobe RGB、Display P3 等）保留配置文件，
+// 由浏览器按显示器的色域显示，其他色彩空间（如 CMYK）转换为 sRGB。
+// asShot 时不摆正方向，输入已忽略配置文件（见 openImage），输出原始像素值
+async function createRendition(source: sharp.Sharp, asShot = false): Promise<Buffer> {
+  const image = asShot ? source : source.autoOrient();
+  const { hasAlpha, icc, space } = await image.metadata();
+  if (!asShot && icc && (space === 'srgb' || space === 'rgb16')) {
+    image.keepIccProfile();
+  }
+  return hasAlpha
+    ? image.png().toBuffer()
+    : image.jpeg({ quality: 92 }).toBuffer();
+}
+
+// 能生成“按拍摄原样”版本的格式（SVG、ICO 没有方向和配置文件，直接返回原文件）
+function supportsAsShot(ext: string): boolean {
+  return isImageExt(ext) && ext !== '.svg' && ext !== '.ico';
+}
+
+// 根据文件头判断转码结果的格式
+function getRenditionContentType(buffer: Buffer): string {
+  return buffer[0] === 0x89 && buffer[1] === 0x50 ? 'image/png' : 'image/jpeg';
+}
+
+// 返回压缩包内的文件（不解压到磁盘，边读边解压）
+async function sendArchiveEntry(
+  request: NextRequest,
+  location: ArchiveLocation,
+  entry: ZipFileEntry,
+  original: boolean,
+  asShot: boolean
+): Promise<NextResponse> {
+  const name = path.posix.basename(entry.name);
+  const ext = path.extname(name).toLowerCase();
+  const etag = getArchiveEntityTag(location, entry);
+  const headers: Record<string, string> = {
+    ETag: etag,
+    'Last-Modified': entry.mtime.toUTCString(),
+    'Cache-Control': 'public, no-cache',
+  };
+  if (isNotModified(request, etag, entry.mtime)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  if (!original && (needsTranscode(ext) || (asShot && supportsAsShot(ext)))) {
+    const { buffer, hit } = await getThumbnailCache().getOrCreate(
+      { absolutePath: toArchiveCacheKey(location), mtimeMs: location.archiveStat.mtimeMs, size: entry.size },
+      asShot ? 'rendition-as-shot' : 'rendition',
+      () => getImagePool().run('viewer', async () => {
+        // 读取条目的错误（损坏、加密、I/O）原样抛出，只有解码失败视为不支持的格式
+        const data = await readArchiveEntry(location, entry);
+        try {
+          return await createRendition(sharp(data, { ignoreIcc: asShot }), asShot);
+        } catch {
+          throw new UnsupportedImageError('This image format cannot be decoded inside an archive');
+        }
+      }, request.signal),
+      request.signal
+    );
+    headers['Content-Type'] = getRenditionContentType(buffer);
+    headers['Content-Length'] = String(buffer.length);
+    headers['X-Thumbnail-Cache'] = hit ? 'HIT' : 'MISS';
+    return new NextResponse(request.method === 'HEAD' ? null : new Uint8Array(buffer), { status: 200, headers });
+  }
+
+  headers['Content-Type'] = getContentType(ext);
+  headers['Content-Length'] = String(entry.size);
+  if (original) {
+    headers['Content-Disposition'] = getAttachmentDisposition(name);
+  }
+  if (request.method === 'HEAD' || entry.size === 0) {
+    return new NextResponse(null, { status: 200, headers });
+  }
+  const stream = await openArchiveEntryStream(location, entry);
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, { status: 200, headers });
+}
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    let filePath = searchParams.get('path');
+    const filePath = searchParams.get('path');
+    // original=1：下载原始文件而不是转码后的版本
+    const original = searchParams.get('original') === '1';
+    // view=as-shot：按拍摄原样查看（不按 EXIF 方向摆正，不做色彩管理），用于检查原始数据
+    const asShot = searchParams.get('view') === 'as-shot';
     
     if (!filePath) {
       return NextResponse.json(
@@ -15,47 +116,85 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    // 解析路径中的 ~ 为用户主目录
-    const homeDir = os.homedir();
-    if (filePath.startsWith('~')) {
-      filePath = path.join(homeDir, filePath.slice(1));
+    // 压缩包内的文件：book.cbz!/page001.jpg
+    const archiveFile = await resolveArchiveFile(filePath);
+    if (archiveFile) {
+      return await sendArchiveEntry(request, archiveFile.location, archiveFile.entry, original, asShot);
     }
-    
-    // 解析绝对路径
-    const absolutePath = path.resolve(filePath);
+
+    // 解析为图库根目录内的绝对路径
+    const { absolutePath } = await resolveLibraryPath(filePath);
     
     // 检查文件是否存在
+    let stat: Stats;
     try {
-      const stat = await fs.stat(absolutePath);
-      if (stat.isDirectory()) {
-        return NextResponse.json(
-          { error: 'Path is a directory, not a file' },
-          { status: 400 }
-        );
-      }
+      stat = await fs.stat(absolutePath);
     } catch (err) {
       return NextResponse.json(
         { error: 'File not found' },
         { status: 404 }
       );
     }
+    if (stat.isDirectory()) {
+      return NextResponse.json(
+        { error: 'Path is a directory, not a file' },
+        { status: 400 }
+      );
+    }
     
     // 获取文件扩展名以确定Content-Type
     const ext = path.extname(absolutePath).toLowerCase();
     const contentType = getContentType(ext);
+
+    if (original) {
+      return sendFile(request, absolutePath, stat, contentType, {
+        'Content-Disposition': getAttachmentDisposition(path.basename(absolutePath)),
+      });
+    }
+
+    // 浏览器无法显示的格式（HEIC、JPEG XL、TIFF、RAW 等）返回转码后的版本，结果与缩略图共用磁盘缓存；
+    // 转码在图片处理任务池中优先于缩略图执行。按拍摄原样查看时所有图片格式都返回转码后的版本
+    if (needsTranscode(ext) || (asShot && supportsAsShot(ext))) {
+      const etag = getEntityTag(stat);
+      const headers: Record<string, string> = {
+        ETag: etag,
+        'Last-Modified': stat.mtime.toUTCString(),
+        'Cache-Control': 'public, no-cache',
+      };
+      if (isNotModified(request, etag, stat.mtime)) {
+        return new NextResponse(null, { status: 304, headers });
+      }
+
+      const { buffer, hit } = await getThumbnailCache().getOrCreate(
+        { absolutePath, mtimeMs: stat.mtimeMs, size: stat.size },
+        asShot ? 'rendition-as-shot' : 'rendition',
+        () => getImagePool().run('viewer', async () => createRendition(await openImage(absolutePath, { asShot }), asShot), request.signal),
+        request.signal
+      );
+      headers['Content-Type'] = getRenditionContentType(buffer);
+      headers['Content-Length'] = String(buffer.length);
+      headers['X-Thumbnail-Cache'] = hit ? 'HIT' : 'MISS';
+      return new NextResponse(request.method === 'HEAD' ? null : new Uint8Array(buffer), { status: 200, headers });
+    }
     
-    // 读取文件
-    const fileBuffer = await fs.readFile(absolutePath);
-    
-    // 返回文件内容
-    return new NextResponse(fileBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=3600',
-      },
-    });
+    // 以流的形式返回文件内容（支持 ETag/Last-Modified 条件请求和 Range 请求）
+    return sendFile(request, absolutePath, stat, contentType);
   } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof UnsupportedImageError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 415 }
+      );
+    }
+    if (error instanceof ArchiveError) {
+      return archiveErrorResponse(error);
+    }
+    if (error instanceof ImageTaskAbortedError) {
+      return imageTaskAbortedResponse();
+    }
     console.error('Error reading file:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -64,18 +203,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function getContentType(ext: string): string {
-  const contentTypes: Record<string, string> = {
-    '.jpg': 'image/jpeg',
-    '.jpeg': 'image/jpeg',
-    '.png': 'image/png',
-    '.gif': 'image/gif',
-    '.bmp': 'image/bmp',
-    '.webp': 'image/webp',
-    '.svg': 'image/svg+xml',
-    '.ico': 'image/x-icon',
-    '.tiff': 'image/tiff',
-    '.tif': 'image/tiff',
-  };
-  return contentTypes[ext] || 'application/octet-stream';
-}
\ No newline at end of file
+// HEAD 请求与 GET 相同，只是不返回内容
+export async function HEAD(request: NextRequest) {
+  return GET(request);
+}
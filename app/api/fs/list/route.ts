@@ -1,73 +1,195 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs/promises';
 import path from 'path';
-import os from 'os';
+import { getLibraryRoots, resolveLibraryPath, toClientPath, PathAccessError, forbiddenResponse, type LibraryRoot } from '@/lib/library';
+import {
+  Annotation,
+  FSItem,
+  SortableEntry,
+  compareEntries,
+  parseSortMode,
+  parseSortOrder,
+  sortNeedsStat,
+  toAnnotationFields,
+} from '@/lib/fs-items';
+import {
+  ArchiveError,
+  archiveErrorResponse,
+  listArchiveDirectory,
+  resolveArchiveLocation,
+  toArchiveCacheKey,
+} from '@/lib/zip-archive';
+import {
+  getAnnotationStore,
+  matchesAnnotationFilter,
+  parseAnnotationFilter,
+} from '@/lib/annotations';
 
+// 单页最多返回的条目数
+const MAX_PAGE_SIZE = 5000;
+
+type ListEntry = SortableEntry & {
+  // 压缩包内的条目为虚拟路径 book.cbz!/page.jpg
+  absolutePath: string;
+};
+
+// 读取条目的大小和修改时间；读取失败（如失效的符号链接）时保持为空
+async function statEntries(entries: ListEntry[]) {
+  await Promise.all(entries.map(async entry => {
+    if (entry.mtimeMs !== undefined) return;
+    try {
+      const stat = await fs.stat(entry.absolutePath);
+      entry.size = stat.size;
+      entry.mtimeMs = stat.mtimeMs;
+    } catch {
+      // 忽略
+    }
+  }));
+}
+
+// 读取目录条目，过滤掉隐藏文件（以.开头）
+async function readDirectoryEntries(absolutePath: string): Promise<ListEntry[]> {
+  const items = await fs.readdir(absolutePath, { withFileTypes: true });
+  return items
+    .filter(item => !item.name.startsWith('.'))
+    .map(item => ({
+      name: item.name,
+      isDirectory: item.isDirectory(),
+      ext: item.isDirectory() ? '' : path.extname(item.name).toLowerCase(),
+      absolutePath: path.join(absolutePath, item.name),
+    }));
+}
+
+// 查询参数：
+//   path    目录路径，默认为第一个图库根目录；ZIP/CBZ 压缩包及其中的目录（book.cbz!/chapter1）按只读目录列出
+//   stat    为 true 时返回每个条目的 size 和 mtime
+//   sort    name | natural | mtime | size | type | rating，默认 name
+//   order   asc | desc，默认 asc
+//   dirsFirst  为 false 时目录不再固定排在文件前面
+//   limit / cursor  分页，cursor 为上一页返回的 nextCursor
+//   rating / label / favorite / tag  按最低星级、颜色标签、收藏和标签筛选文件（目录不受影响）
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    let dirPath = searchParams.get('path') || '~';
-    
-    // 解析路径中的 ~ 为用户主目录
-    const homeDir = os.homedir();
-    if (dirPath.startsWith('~')) {
-      dirPath = path.join(homeDir, dirPath.slice(1));
-    }
-    
-    // 解析绝对路径
-    const rootDir = process.cwd();
-    const absolutePath = path.resolve(dirPath);
-    
-    // 检查路径是否存在且为目录
-    try {
-      const stat = await fs.stat(absolutePath);
-      if (!stat.isDirectory()) {
+    // 未指定路径时打开第一个图库根目录
+    const dirPath = searchParams.get('path') || getLibraryRoots()[0].path;
+    const includeStat = searchParams.get('stat') === 'true' || searchParams.get('stat') === '1';
+    const sortMode = parseSortMode(searchParams.get('sort'));
+    const sortOrder = parseSortOrder(searchParams.get('order'));
+    const dirsFirst = searchParams.get('dirsFirst') !== 'false';
+    const limitParam = parseInt(searchParams.get('limit') || '', 10);
+    const limit = limitParam > 0 ? Math.min(limitParam, MAX_PAGE_SIZE) : null;
+    const offset = Math.max(parseInt(searchParams.get('cursor') || '0', 10) || 0, 0);
+    const filter = parseAnnotationFilter(searchParams);
+
+    let root: LibraryRoot;
+    let absolutePath: string;
+    let entries: ListEntry[];
+    const archive = await resolveArchiveLocation(dirPath);
+    if (archive) {
+      // 压缩包内的条目，大小和修改时间来自压缩包目录
+      root = archive.root;
+      absolutePath = toArchiveCacheKey(archive);
+      entries = (await listArchiveDirectory(archive)).map(entry => ({
+        name: entry.name,
+        isDirectory: entry.isDirectory,
+        ext: entry.isDirectory ? '' : path.extname(entry.name).toLowerCase(),
+        size: entry.size,
+        mtimeMs: entry.mtimeMs,
+        absolutePath: `${absolutePath.replace(/\/$/, '')}/${entry.name}`,
+      }));
+    } else {
+      // 解析为图库根目录内的绝对路径
+      ({ root, absolutePath } = await resolveLibraryPath(dirPath));
+
+      // 检查路径是否存在且为目录
+      try {
+        const stat = await fs.stat(absolutePath);
+        if (!stat.isDirectory()) {
+          return NextResponse.json(
+            { error: 'Path is not a directory' },
+            { status: 400 }
+          );
+        }
+      } catch (err) {
         return NextResponse.json(
-          { error: 'Path is not a directory' },
-          { status: 400 }
+          { error: 'Directory not found' },
+          { status: 404 }
         );
       }
-    } catch (err) {
-      return NextResponse.json(
-        { error: 'Directory not found' },
-        { status: 404 }
-      );
+
+      entries = await readDirectoryEntries(absolutePath);
     }
-    
-    // 读取目录内容
-    const items = await fs.readdir(absolutePath, { withFileTypes: true });
-    
-    // 过滤掉隐藏文件（以.开头）
-    const filteredItems = items.filter(item => !item.name.startsWith('.'));
-    
-    // 排序：目录在前，文件在后，按名称排序
-    const sortedItems = filteredItems.sort((a, b) => {
-      if (a.isDirectory() && !b.isDirectory()) return -1;
-      if (!a.isDirectory() && b.isDirectory()) return 1;
-      return a.name.localeCompare(b.name);
-    });
-    
+
+    // 按时间或大小排序时需要先读取全部条目的 stat
+    if (sortNeedsStat(sortMode)) {
+      await statEntries(entries);
+    }
+
+    // 评分等整理信息（压缩包内的条目没有），按评分排序和筛选需要全部文件的
+    const store = getAnnotationStore();
+    const annotations = archive
+      ? new Map<string, Annotation>()
+      : await store.lookup(entries.filter(entry => !entry.isDirectory));
+    if (filter) {
+      entries = entries.filter(entry => entry.isDirectory || matchesAnnotationFilter(annotations.get(entry.absolutePath), filter));
+    }
+    for (const entry of entries) {
+      entry.rating = annotations.get(entry.absolutePath)?.rating;
+    }
+
+    // 排序（默认目录在前）
+    entries.sort(compareEntries(sortMode, sortOrder, dirsFirst));
+
+    // 分页
+    const pageEntries = limit === null ? entries.slice(offset) : entries.slice(offset, offset + limit);
+    const nextOffset = offset + pageEntries.length;
+    if (includeStat) {
+      await statEntries(pageEntries);
+      // 有了文件大小后，关联在应用外被重命名的文件原来的记录
+      if (!archive && !filter) {
+        const reattached = await store.lookup(pageEntries.filter(entry => !entry.isDirectory && !annotations.has(entry.absolutePath)));
+        for (const [absolutePath, annotation] of reattached) {
+          annotations.set(absolutePath, annotation);
+        }
+      }
+    }
+
     // 格式化返回数据
-    const result = sortedItems.map(item => ({
-      name: item.name,
-      type: item.isDirectory() ? 'directory' : 'file',
-      path: path.relative(rootDir, path.join(absolutePath, item.name)).replace(/\\/g, '/'),
-      ext: item.isDirectory() ? '' : path.extname(item.name).toLowerCase(),
+    const result: FSItem[] = pageEntries.map(entry => ({
+      name: entry.name,
+      type: entry.isDirectory ? 'directory' : 'file',
+      path: toClientPath(entry.absolutePath),
+      ext: entry.ext,
+      ...(includeStat && {
+        size: entry.size,
+        mtime: entry.mtimeMs !== undefined ? new Date(entry.mtimeMs).toISOString() : undefined,
+      }),
+      ...toAnnotationFields(annotations.get(entry.absolutePath)),
     }));
-    
+
     // 返回路径使用正斜杠
-    const displayPath = absolutePath.replace(/\\/g, '/');
-    
+    const displayPath = toClientPath(absolutePath);
+
     return NextResponse.json({
       path: displayPath,
       absolutePath: absolutePath,
+      root: { name: root.name, path: toClientPath(root.path) },
       items: result,
+      total: entries.length,
+      nextCursor: nextOffset < entries.length ? String(nextOffset) : null,
     });
   } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof ArchiveError) {
+      return archiveErrorResponse(error);
+    }
     console.error('Error reading directory:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
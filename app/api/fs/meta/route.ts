@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import type { Stats } from 'fs';
+import path from 'path';
+import { resolveLibraryPath, PathAccessError, forbiddenResponse } from '@/lib/library';
+import { readImageBufferMetadata, readImageMetadata } from '@/lib/image-metadata';
+import { ImageTaskAbortedError, imageTaskAbortedResponse } from '@/lib/image-pool';
+import {
+  ArchiveError,
+  archiveErrorResponse,
+  readArchiveEntry,
+  resolveArchiveFile,
+} from '@/lib/zip-archive';
+
+// 返回图片的文件信息、像素尺寸、色彩信息和 EXIF
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const filePath = searchParams.get('path');
+
+    if (!filePath) {
+      return NextResponse.json(
+        { error: 'Missing path parameter' },
+        { status: 400 }
+      );
+    }
+
+    // 压缩包内的图片：解压后读取
+    const archiveFile = await resolveArchiveFile(filePath);
+    if (archiveFile) {
+      const { location, entry } = archiveFile;
+      const buffer = await readArchiveEntry(location, entry);
+      const metadata = await readImageBufferMetadata(path.posix.basename(entry.name), buffer, entry.mtime, request.signal);
+      return NextResponse.json(metadata, {
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    // 解析为图库根目录内的绝对路径
+    const { absolutePath } = await resolveLibraryPath(filePath);
+
+    // 检查文件是否存在
+    let stat: Stats;
+    try {
+      stat = await fs.stat(absolutePath);
+    } catch {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+    if (stat.isDirectory()) {
+      return NextResponse.json(
+        { error: 'Path is a directory, not a file' },
+        { status: 400 }
+      );
+    }
+
+    const metadata = await readImageMetadata(absolutePath, request.signal);
+
+    return NextResponse.json(metadata, {
+      headers: {
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof ArchiveError) {
+      return archiveErrorResponse(error);
+    }
+    if (error instanceof ImageTaskAbortedError) {
+      return imageTaskAbortedResponse();
+    }
+    console.error('Error reading metadata:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
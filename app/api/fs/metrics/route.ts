@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getImagePool } from '@/lib/image-pool';
+import { getThumbnailCache } from '@/lib/thumbnail-cache';
+
+// 运行状态：图片处理任务池的排队数量、耗时统计，以及缩略图缓存占用
+export async function GET() {
+  try {
+    return NextResponse.json(
+      {
+        imagePool: getImagePool().metrics(),
+        thumbnailCache: await getThumbnailCache().stats(),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error reading metrics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, createDirectory, fileOpErrorResponse, readJsonBody } from '@/lib/file-ops';
+
+// 新建文件夹
+// 请求体：{ path, name }，path 为所在目录
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const newPath = await createDirectory(body.path, body.name);
+    return NextResponse.json({ path: newPath });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    console.error('Error creating directory:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
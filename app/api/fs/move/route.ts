@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody, transferEntries } from '@/lib/file-ops';
+
+// 移动文件或文件夹到另一个目录
+// 请求体：{ paths: string[], destination }，目标目录中已有同名条目时返回 409，不做任何修改
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const paths = await transferEntries(body.paths, body.destination, 'move');
+    return NextResponse.json({ paths });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    console.error('Error during move:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody, renameEntry } from '@/lib/file-ops';
+
+// 重命名文件或文件夹
+// 请求体：{ path, name }，name 为新名称（不含路径）
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const newPath = await renameEntry(body.path, body.name);
+    return NextResponse.json({ path: newPath });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    console.error('Error renaming:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
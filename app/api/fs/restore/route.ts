@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody, restoreEntries } from '@/lib/file-ops';
+
+// 从回收站恢复（撤销删除）
+// 请求体：{ ids: string[] }；原位置已有同名条目时返回 409
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const paths = await restoreEntries(body.ids);
+    return NextResponse.json({ paths });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    console.error('Error restoring from trash:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
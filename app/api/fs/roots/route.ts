@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getLibraryRoots, toClientPath } from '@/lib/library';
+
+// 返回已配置的图库根目录，供前端路径输入框使用
+export async function GET() {
+  try {
+    const roots = getLibraryRoots().map(root => ({
+      name: root.name,
+      path: toClientPath(root.path),
+    }));
+    return NextResponse.json({ roots });
+  } catch (error) {
+    console.error('Error reading library roots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import { resolveLibraryPath, PathAccessError, forbiddenResponse } from '@/lib/library';
+import { createNameMatcher, searchFiles, SearchEvent, SearchPatternError } from '@/lib/fs-search';
+import { toAnnotationFields } from '@/lib/fs-items';
+import { getAnnotationStore } from '@/lib/annotations';
+
+const DEFAULT_DEPTH = 5;
+const MAX_DEPTH = 32;
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 10000;
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+// 结束日期只有日期部分时包含当天（到当天的最后一毫秒）
+function parseEndDate(value: string | null): number | null {
+  const time = parseDate(value);
+  if (time === null || !value || !/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return time;
+  return time + DAY_MS - 1;
+}
+
+// 递归搜索文件，结果以 NDJSON 流式返回，每行一个 SearchEvent
+// 查询参数：
+//   path      起始目录
+//   q         文件名子串或通配符（如 IMG_*.jpg）
+//   ext       扩展名列表，逗号分隔（如 jpg,png）
+//   minSize / maxSize  文件大小范围（字节）
+//   from / to          修改时间范围（ISO 日期，只有日期部分时 to 包含当天）
+//   depth     最大搜索深度，默认 5
+//   limit     最多返回的结果数，默认 1000
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const dirPath = searchParams.get('path');
+
+    if (!dirPath) {
+      return NextResponse.json(
+        { error: 'Missing path parameter' },
+        { status: 400 }
+      );
+    }
+
+    // 解析为图库根目录内的绝对路径
+    const { absolutePath } = await resolveLibraryPath(dirPath);
+
+    // 检查路径是否存在且为目录
+    try {
+      const stat = await fs.stat(absolutePath);
+      if (!stat.isDirectory()) {
+        return NextResponse.json(
+          { error: 'Path is not a directory' },
+          { status: 400 }
+        );
+      }
+    } catch {
+      return NextResponse.json(
+        { error: 'Directory not found' },
+        { status: 404 }
+      );
+    }
+
+    const extensions = (searchParams.get('ext') || '')
+      .split(',')
+      .map(ext => ext.trim().toLowerCase())
+      .filter(ext => ext.length > 0)
+      .map(ext => ext.startsWith('.') ? ext : `.${ext}`);
+    // 在开始返回结果流之前生成匹配函数，无效的通配符直接返回 400
+    const matchName = createNameMatcher(searchParams.get('q') || '');
+    const depth = parseNumber(searchParams.get('depth'));
+    const limit = parseNumber(searchParams.get('limit'));
+    const maxResults = Math.min(Math.max(limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const results = searchFiles(absolutePath, {
+      matchName,
+      extensions,
+      minSize: parseNumber(searchParams.get('minSize')),
+      maxSize: parseNumber(searchParams.get('maxSize')),
+      after: parseDate(searchParams.get('from')),
+      before: parseEndDate(searchParams.get('to')),
+      maxDepth: Math.min(Math.max(depth ?? DEFAULT_DEPTH, 0), MAX_DEPTH),
+      signal: request.signal,
+    });
+
+    const encoder = new TextEncoder();
+    const encode = (event: SearchEvent) => encoder.encode(JSON.stringify(event) + '\n');
+    const store = getAnnotationStore();
+    let count = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const next = await results.next();
+          if (next.done) {
+            controller.enqueue(encode({ type: 'done', count, truncated: false }));
+            controller.close();
+            return;
+          }
+          count++;
+          const item = next.value;
+          const annotations = await store.lookup([{ absolutePath: item.path, size: item.size }]);
+          controller.enqueue(encode({ type: 'item', item: { ...item, ...toAnnotationFields(annotations.get(item.path)) } }));
+          if (count >= maxResults) {
+            await results.return(undefined);
+            controller.enqueue(encode({ type: 'done', count, truncated: true }));
+            controller.close();
+          }
+        } catch (error) {
+          console.error('Error searching files:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        // 客户端断开，停止遍历
+        await results.return(undefined);
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof SearchPatternError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error searching files:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
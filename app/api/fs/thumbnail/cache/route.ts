@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryPath, PathAccessError, forbiddenResponse } from '@/lib/library';
+import { getThumbnailCache } from '@/lib/thumbnail-cache';
+
+// 查看缩略图缓存状态
+export async function GET() {
+  try {
+    return NextResponse.json(await getThumbnailCache().stats());
+  } catch (error) {
+    console.error('Error reading thumbnail cache stats:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// 清空缩略图缓存；带 path 参数时只清除该文件的缓存
+export async function DELETE(request: NextRequest) {
+  try {
+    const cache = getThumbnailCache();
+    const filePath = request.nextUrl.searchParams.get('path');
+
+    if (filePath) {
+      const { absolutePath } = await resolveLibraryPath(filePath);
+      await cache.invalidate(absolutePath);
+    } else {
+      await cache.clear();
+    }
+
+    return NextResponse.json(await cache.stats());
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    console.error('Error clearing thumbnail cache:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs/promises';
+import { createReadStream, type Stats } from 'fs';
 import path from 'path';
-import os from 'os';
+import { Readable } from 'stream';
+import { getEntityTag, isNotModified } from '@/lib/http';
+import { resolveLibraryPath, PathAccessError, forbiddenResponse } from '@/lib/library';
+import { getThumbnailCache, type ThumbnailSource } from '@/lib/thumbnail-cache';
+import { isAnimatedImageExt, isImageExt, isVideoExt } from '@/lib/image-formats';
+import { openImage, UnsupportedImageError } from '@/lib/image-decoder';
+import { getImagePool, ImageTaskAbortedError, imageTaskAbortedResponse } from '@/lib/image-pool';
+import { extractPosterFrame } from '@/lib/video-poster';
+import {
+  ArchiveError,
+  archiveErrorResponse,
+  getArchiveEntityTag,
+  openArchiveEntryStream,
+  readArchiveEntry,
+  resolveArchiveFile,
+  toArchiveCacheKey,
+} from '@/lib/zip-archive';
 import sharp from 'sharp';
 
+// 缩略图尺寸（最长边）：请求的尺寸向上取到其中一档，限制缓存中的尺寸种类和最大的缩放
+const THUMBNAIL_SIZES = [64, 128, 256, 512, 1024, 2048];
+const DEFAULT_THUMBNAIL_SIZE = 128;
+
+// 解析 size 参数；不是正整数时返回 null
+function parseThumbnailSize(value: string | null): number | null {
+  if (value === null || value === '') return DEFAULT_THUMBNAIL_SIZE;
+  const size = Number(value);
+  if (!Number.isInteger(size) || size <= 0) return null;
+  return THUMBNAIL_SIZES.find(s => s >= size) ?? THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1];
+}
+
+// 缩略图输出格式：保留透明度的格式输出 PNG/WebP，其余（包括 RAW、HEIC 等）输出 JPEG
+function getThumbnailFormat(ext: string): keyof sharp.FormatEnum {
+  switch (ext) {
+    case '.png':
+    case '.gif':
+    case '.tif':
+    case '.tiff':
+      return 'png';
+    case '.webp':
+    case '.avif':
+      return 'webp';
+    default:
+      return 'jpeg';
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    let filePath = searchParams.get('path');
-    const size = parseInt(searchParams.get('size') || '128');
+    const filePath = searchParams.get('path');
+    const size = parseThumbnailSize(searchParams.get('size'));
+    // animated=1：GIF/WebP 动画生成动态 WebP 缩略图（用于悬停预览）
+    const animated = searchParams.get('animated') === '1';
 
     if (!filePath) {
       return NextResponse.json(
@@ -16,80 +63,140 @@ export async function GET(request: NextRequest) {
         { status: 400 }
       );
     }
-
-    // 解析路径中的 ~ 为用户主目录
-    const homeDir = os.homedir();
-    if (filePath.startsWith('~')) {
-      filePath = path.join(homeDir, filePath.slice(1));
+    if (size === null) {
+      return NextResponse.json(
+        { error: 'size must be a positive integer' },
+        { status: 400 }
+      );
     }
 
-    // 解析绝对路径
-    const absolutePath = path.resolve(filePath);
+    let source: ThumbnailSource;
+    let ext: string;
+    // 原文件的 ETag 和修改时间：缩略图地址中不带文件版本，浏览器每次使用前都要确认原文件未被修改
+    let etag: string;
+    let mtime: Date;
+    // 以流的形式读取原始数据（SVG/ICO 直接返回原文件时使用）
+    let openSource: () => Promise<Readable>;
+    let isVideo = false;
+
+    const archiveFile = await resolveArchiveFile(filePath);
+    if (archiveFile) {
+      // 压缩包内的图片：从压缩包中解压后生成，缓存随压缩包的修改而失效
+      const { location, entry } = archiveFile;
+      ext = path.extname(entry.name).toLowerCase();
+      if (!isImageExt(ext)) {
+        return NextResponse.json(
+          { error: 'File is not a supported image type' },
+          { status: 400 }
+        );
+      }
+      source = { absolutePath: toArchiveCacheKey(location), mtimeMs: location.archiveStat.mtimeMs, size: entry.size };
+      etag = getArchiveEntityTag(location, entry);
+      mtime = entry.mtime;
+      openSource = () => openArchiveEntryStream(location, entry);
+    } else {
+      // 解析为图库根目录内的绝对路径
+      const { absolutePath } = await resolveLibraryPath(filePath);
 
-    // 检查文件是否存在
-    try {
-      const stat = await fs.stat(absolutePath);
+      // 检查文件是否存在
+      let stat: Stats;
+      try {
+        stat = await fs.stat(absolutePath);
+      } catch (err) {
+        return NextResponse.json(
+          { error: 'File not found' },
+          { status: 404 }
+        );
+      }
       if (stat.isDirectory()) {
         return NextResponse.json(
           { error: 'Path is a directory, not a file' },
           { status: 400 }
         );
       }
-    } catch (err) {
-      return NextResponse.json(
-        { error: 'File not found' },
-        { status: 404 }
-      );
-    }
 
-    // 检查文件扩展名是否为支持的图片类型
-    const ext = path.extname(absolutePath).toLowerCase();
-    const supportedImageExts = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.tif', '.svg', '.ico'];
-    if (!supportedImageExts.includes(ext)) {
-      return NextResponse.json(
-        { error: 'File is not a supported image type' },
-        { status: 400 }
-      );
+      // 检查文件扩展名是否为支持的图片或视频类型
+      ext = path.extname(absolutePath).toLowerCase();
+      isVideo = isVideoExt(ext);
+      if (!isImageExt(ext) && !isVideo) {
+        return NextResponse.json(
+          { error: 'File is not a supported image or video type' },
+          { status: 400 }
+        );
+      }
+      source = { absolutePath, mtimeMs: stat.mtimeMs, size: stat.size };
+      etag = getEntityTag(stat);
+      mtime = stat.mtime;
+      openSource = async () => createReadStream(absolutePath);
     }
 
-    // 读取文件
-    const fileBuffer = await fs.readFile(absolutePath);
+    const headers: Record<string, string> = {
+      ETag: etag,
+      'Last-Modified': mtime.toUTCString(),
+      'Cache-Control': 'public, no-cache',
+    };
+    if (isNotModified(request, etag, mtime)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
 
-    // 对于SVG和ICO，直接返回原始文件（不调整大小）
+    // 对于SVG和ICO，直接返回原始文件（不调整大小，也不缓存）
     if (ext === '.svg' || ext === '.ico') {
-      const contentType = ext === '.svg' ? 'image/svg+xml' : 'image/x-icon';
-      return new NextResponse(new Uint8Array(fileBuffer), {
-        status: 200,
-        headers: {
-          'Content-Type': contentType,
-          'Cache-Control': 'public, max-age=86400',
-        },
-      });
+      const stream = await openSource();
+      headers['Content-Type'] = ext === '.svg' ? 'image/svg+xml' : 'image/x-icon';
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, { status: 200, headers });
     }
 
-    // 对于其他图片格式，使用sharp调整大小
-    const thumbnailBuffer = await sharp(fileBuffer)
-      .resize(size, size, {
-        fit: 'inside',
-        withoutEnlargement: true,
-      })
-      .toBuffer();
-
-    // 获取调整大小后的图片格式（保持原格式，除非是GIF，则转换为PNG以保持透明度）
-    let outputFormat: keyof sharp.FormatEnum = ext.slice(1) as keyof sharp.FormatEnum;
-    if (outputFormat === 'gif' || outputFormat === 'tiff') {
-      outputFormat = 'png';
-    }
+    // 对于其他图片格式，使用sharp调整大小（优先从磁盘缓存读取）
+    // 生成缩略图在图片处理任务池中排队，优先级低于查看器的大图；请求断开时丢弃排队中的任务
+    // APNG 无法由 libvips 解码动画，只生成静态缩略图
+    const animate = animated && isAnimatedImageExt(ext) && ext !== '.png';
+    const outputFormat = animate ? 'webp' : isVideo ? 'jpeg' : getThumbnailFormat(ext);
+    const { buffer: thumbnailBuffer, hit } = await getThumbnailCache().getOrCreate(
+      source,
+      animate ? `${size}-animated` : String(size),
+      () => getImagePool().run('thumbnail', async () => {
+        // 视频使用 ffmpeg 截取的封面帧；磁盘上的图片由 libvips 直接按路径读取，只有压缩包内的图片先解压到内存
+        const image = archiveFile
+          ? sharp(await readArchiveEntry(archiveFile.location, archiveFile.entry), { animated: animate })
+          : isVideo
+          ? sharp(await extractPosterFrame(source.absolutePath))
+          : animate
+          ? sharp(source.absolutePath, { animated: true })
+          : await openImage(source.absolutePath);
+        // 按 EXIF 方向摆正后再缩放；按内嵌的 ICC 配置文件转换为 sRGB（缩略图不带配置文件，各浏览器显示一致）
+        return image
+          .autoOrient()
+          .resize(size, size, {
+            fit: 'inside',
+            withoutEnlargement: true,
+          })
+          .toColourspace('srgb')
+          .toFormat(outputFormat)
+          .toBuffer();
+      }, request.signal),
+      request.signal
+    );
 
     // 返回缩略图
-    return new NextResponse(new Uint8Array(thumbnailBuffer), {
-      status: 200,
-      headers: {
-        'Content-Type': `image/${outputFormat}`,
-        'Cache-Control': 'public, max-age=86400', // 缓存1天
-      },
-    });
+    headers['Content-Type'] = `image/${outputFormat}`;
+    headers['X-Thumbnail-Cache'] = hit ? 'HIT' : 'MISS';
+    return new NextResponse(new Uint8Array(thumbnailBuffer), { status: 200, headers });
   } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof UnsupportedImageError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 415 }
+      );
+    }
+    if (error instanceof ArchiveError) {
+      return archiveErrorResponse(error);
+    }
+    if (error instanceof ImageTaskAbortedError) {
+      return imageTaskAbortedResponse();
+    }
     console.error('Error generating thumbnail:', error);
     // 如果sharp处理失败，尝试返回原始图片（但尺寸可能较大）
     // 这里我们直接返回错误
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PathAccessError, forbiddenResponse } from '@/lib/library';
+import { FileOpError, fileOpErrorResponse, readJsonBody } from '@/lib/file-ops';
+import { transformImage } from '@/lib/image-transform';
+import { ImageTaskAbortedError, imageTaskAbortedResponse } from '@/lib/image-pool';
+
+// 旋转/翻转/裁剪图片并写回磁盘
+// 请求体：{ path, rotate?: 90 | 180 | 270, flip?: 'horizontal' | 'vertical',
+//          crop?: { x, y, width, height }（0-1 的比例，相对于旋转/翻转后的图像）,
+//          saveAs?: 'backup'（默认，覆盖并保留原文件备份）| 'copy'（另存为新文件） }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const result = await transformImage(body, request.signal);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    if (error instanceof FileOpError) {
+      return fileOpErrorResponse(error);
+    }
+    if (error instanceof ImageTaskAbortedError) {
+      return imageTaskAbortedResponse();
+    }
+    console.error('Error transforming image:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import { resolveLibraryPath, PathAccessError, forbiddenResponse } from '@/lib/library';
+import { watchDirectory, type WatchEvent } from '@/lib/directory-watcher';
+
+// 定期发送注释行，避免代理因连接空闲而断开
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// 以 Server-Sent Events 推送目录中的变化，每条消息的 data 为一个 WatchEvent
+// 查询参数：
+//   path    要监视的目录
+export async function GET(request: NextRequest) {
+  try {
+    const dirPath = request.nextUrl.searchParams.get('path');
+
+    if (!dirPath) {
+      return NextResponse.json(
+        { error: 'Missing path parameter' },
+        { status: 400 }
+      );
+    }
+
+    // 解析为图库根目录内的绝对路径
+    const { absolutePath } = await resolveLibraryPath(dirPath);
+
+    // 检查路径是否存在且为目录
+    try {
+      const stat = await fs.stat(absolutePath);
+      if (!stat.isDirectory()) {
+        return NextResponse.json(
+          { error: 'Path is not a directory' },
+          { status: 400 }
+        );
+      }
+    } catch {
+      return NextResponse.json(
+        { error: 'Directory not found' },
+        { status: 404 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false;
+        const send = (text: string) => {
+          if (!closed) controller.enqueue(encoder.encode(text));
+        };
+
+        // 监视器出错关闭时（已先推送 reset）结束响应，EventSource 随后自动重新连接；
+        // 目录已不存在时重新连接得到 404，EventSource 不再重试
+        const unsubscribe = await watchDirectory(absolutePath, (event: WatchEvent) => {
+          send(`data: ${JSON.stringify(event)}\n\n`);
+        }, () => {
+          if (closed) return;
+          cleanup();
+          controller.close();
+        });
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+        // 客户端断开时 cancel 不一定会被调用，同时监听请求的中止
+        request.signal.addEventListener('abort', cleanup);
+        if (request.signal.aborted) cleanup();
+
+        send(': connected\n\n');
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    if (error instanceof PathAccessError) {
+      return forbiddenResponse(error);
+    }
+    console.error('Error watching directory:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
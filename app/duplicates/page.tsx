@@ -0,0 +1,245 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { MediaThumbnail } from '@/components/media-thumbnail';
+import type { DuplicateItem, DuplicateScan } from '@/lib/duplicate-finder';
+import { formatFileSize, getFileUrl, postFileOp } from '@/lib/utils';
+
+// 相似度阈值（汉明距离）选项
+const THRESHOLD_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: '几乎一致' },
+  { value: 6, label: '相似（默认）' },
+  { value: 12, label: '宽松（包括连拍）' },
+];
+
+// 扫描进度的查询间隔（毫秒）
+const POLL_INTERVAL = 1000;
+
+// 撤销删除提示的显示时间（毫秒）
+const UNDO_TIMEOUT = 10000;
+
+export default function DuplicatesPage() {
+  // useSearchParams 需要 Suspense 边界
+  return (
+    <Suspense>
+      <DuplicateReview />
+    </Suspense>
+  );
+}
+
+// 重复图片复查：逐组并排显示，保留其中一张或删除到回收站
+function DuplicateReview() {
+  const path = useSearchParams().get('path') ?? '';
+  const [threshold, setThreshold] = useState<number>(6);
+  const [scan, setScan] = useState<DuplicateScan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // 已删除的图片，从分组中隐藏
+  const [deleted, setDeleted] = useState<Set<string>>(new Set());
+  // 最近一次删除，可撤销（从回收站恢复）
+  const [undoTrash, setUndoTrash] = useState<{ ids: string[]; paths: string[]; message: string } | null>(null);
+
+  const running = scan?.status === 'running';
+  const scanId = running ? scan.id : null;
+
+  const startScan = async () => {
+    setError(null);
+    setDeleted(new Set());
+    try {
+      setScan(await postFileOp<DuplicateScan>('duplicates', { path, threshold }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '扫描失败');
+    }
+  };
+
+  const cancelScan = async () => {
+    if (!scanId) return;
+    const response = await fetch(`/api/fs/duplicates?id=${scanId}`, { method: 'DELETE' });
+    if (response.ok) setScan(await response.json());
+  };
+
+  // 扫描进行中定期查询进度
+  useEffect(() => {
+    if (!scanId) return;
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/fs/duplicates?id=${scanId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        setScan(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : '查询扫描进度失败');
+        setScan(null);
+      }
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [scanId]);
+
+  // 一段时间后隐藏撤销提示
+  useEffect(() => {
+    if (!undoTrash) return;
+    const timer = setTimeout(() => setUndoTrash(null), UNDO_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [undoTrash]);
+
+  // 去掉已删除的图片后仍有两张以上的分组
+  const groups = useMemo(
+    () => (scan?.groups ?? [])
+      .map(group => ({ ...group, items: group.items.filter(item => !deleted.has(item.path)) }))
+      .filter(group => group.items.length > 1),
+    [scan, deleted]
+  );
+
+  const deleteItems = async (items: DuplicateItem[], message: string) => {
+    try {
+      const { trashed } = await postFileOp<{ trashed: { id: string; path: string }[] }>('delete', {
+        paths: items.map(item => item.path),
+      });
+      const paths = trashed.map(entry => entry.path);
+      setDeleted(prev => new Set([...prev, ...paths]));
+      setUndoTrash({ ids: trashed.map(entry => entry.id), paths, message });
+    } catch (err) {
+      alert(`删除失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  // 保留选中的图片，组内其他图片移到回收站
+  const keepOnly = (keep: DuplicateItem, items: DuplicateItem[]) => {
+    const others = items.filter(item => item.path !== keep.path);
+    if (!window.confirm(`保留“${keep.name}”，将其余 ${others.length} 张移到回收站？`)) return;
+    deleteItems(others, `已将 ${others.length} 张图片移到回收站`);
+  };
+
+  const handleUndoDelete = async () => {
+    if (!undoTrash) return;
+    setUndoTrash(null);
+    try {
+      await postFileOp('restore', { ids: undoTrash.ids });
+      setDeleted(prev => new Set([...prev].filter(path => !undoTrash.paths.includes(path))));
+    } catch (err) {
+      alert(`撤销失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-black p-4 md:p-8">
+      <header className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">查找重复图片</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2 font-mono text-sm">{path || '未指定目录'}</p>
+        </div>
+        <div className="mt-1">
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 mb-6 flex flex-wrap items-center gap-4">
+          <Link
+            href="/"
+            className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            返回浏览
+          </Link>
+          <select
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            disabled={running}
+            className="px-3 py-2 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+            title="相似程度"
+          >
+            {THRESHOLD_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={running ? cancelScan : startScan}
+            disabled={!path}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {running ? '停止' : scan ? '重新扫描' : '开始扫描'}
+          </button>
+          {scan && (
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {running
+                ? scan.total === null
+                  ? '正在列出图片...'
+                  : `正在计算指纹 ${scan.processed} / ${scan.total}`
+                : scan.status === 'cancelled'
+                ? '已停止'
+                : scan.status === 'error'
+                ? `扫描失败: ${scan.error}`
+                : `共 ${scan.total} 张图片，找到 ${groups.length} 组重复${scan.failed > 0 ? `，${scan.failed} 张无法读取` : ''}`}
+            </span>
+          )}
+        </div>
+
+        {error && <div className="text-center text-red-500 mb-6">错误: {error}</div>}
+
+        <div className="space-y-6">
+          {groups.map(group => (
+            <section key={group.items[0].path} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4">
+              <div className="mb-3 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                {group.kind === 'exact' ? '完全相同' : '相似'} · {group.items.length} 张
+              </div>
+              <div className="flex gap-4 overflow-x-auto pb-2">
+                {group.items.map((item, index) => (
+                  <div key={item.path} className="flex-none w-56 rounded-lg bg-gray-50 dark:bg-gray-900 p-3 text-xs text-gray-600 dark:text-gray-400">
+                    <a href={getFileUrl(item.path)} target="_blank" rel="noreferrer" className="block h-40 mb-2">
+                      <MediaThumbnail item={item} size={256} fit="contain" />
+                    </a>
+                    <div className="font-medium text-sm text-gray-800 dark:text-white truncate" title={item.path}>
+                      {item.name}
+                    </div>
+                    <div>{item.width} × {item.height} · {formatFileSize(item.size ?? 0)}</div>
+                    {item.mtime && <div>{new Date(item.mtime).toLocaleString()}</div>}
+                    <div className="truncate" title={item.path}>{item.path.slice(0, item.path.lastIndexOf('/')) || '/'}</div>
+                    {index === 0 && (
+                      <div className="mt-1 text-green-600 dark:text-green-400">建议保留（分辨率最高）</div>
+                    )}
+                    {group.kind === 'similar' && item.identicalTo && (
+                      <div className="mt-1 text-amber-600 dark:text-amber-400 truncate">
+                        与“{item.identicalTo.split('/').pop()}”内容完全相同
+                      </div>
+                    )}
+                    <div className="mt-2 flex gap-2">
+                      <button
+                        onClick={() => keepOnly(item, group.items)}
+                        className="flex-1 px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                      >
+                        只保留此张
+                      </button>
+                      <button
+                        onClick={() => deleteItems([item], `已将“${item.name}”移到回收站`)}
+                        className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-red-600 dark:text-red-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                      >
+                        删除
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        {scan?.status === 'done' && groups.length === 0 && (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">没有重复的图片</div>
+        )}
+      </main>
+
+      {undoTrash && (
+        <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 px-4 py-2 rounded-full bg-gray-900/90 text-white text-sm shadow-lg">
+          <span>{undoTrash.message}</span>
+          <button onClick={handleUndoDelete} className="font-semibold text-blue-300 hover:text-blue-200">
+            撤销
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,223 @@
 "use client";
 
-import { useState, useEffect, useCallback, KeyboardEvent, useRef } from 'react';
+import { useState, useEffect, useEffectEvent, useCallback, useMemo, useRef } from 'react';
 import Image from 'next/image';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { ImageInfoPanel } from '@/components/image-info-panel';
+import { ZoomableImage } from '@/components/zoomable-image';
+import { PanoramaViewer } from '@/components/panorama-viewer';
+import { AnimatedImage } from '@/components/animated-image';
+import { VideoPlayer } from '@/components/video-player';
+import { MediaThumbnail } from '@/components/media-thumbnail';
+import { ItemActionsMenu } from '@/components/item-actions-menu';
+import { CropOverlay } from '@/components/crop-overlay';
+import { ExportDialog } from '@/components/export-dialog';
+import { AnnotationBadges, LABEL_STYLES } from '@/components/annotation-badges';
+import { CompareView } from '@/components/compare-view';
+import {
+  SlideshowControls,
+  SlideshowSettings,
+  SlideshowStage,
+  DEFAULT_SLIDESHOW_SETTINGS,
+  buildSlideshowOrder,
+} from '@/components/slideshow';
+import { useGridSelection } from '@/hooks/use-grid-selection';
+import { invalidateImageMetadata, useImageMetadata } from '@/hooks/use-image-metadata';
+import { useImagePrefetch } from '@/hooks/use-image-prefetch';
+import { useVirtualGrid } from '@/hooks/use-virtual-grid';
+import {
+  COLOR_LABELS,
+  compareEntries,
+  isArchiveEntryPath,
+  toAnnotationFields,
+  type Annotation,
+  type ColorLabel,
+  type FSItem,
+  type SortMode,
+  type SortOrder,
+} from '@/lib/fs-items';
+import type { AnnotationPatch } from '@/lib/annotations';
+import type { WatchEvent } from '@/lib/directory-watcher';
+import type { CropRect, TransformOptions } from '@/lib/image-transform';
+import { MEDIA_EXTS, isAnimatedImageExt, isArchiveExt, isImageExt, isMediaExt, isTransformableExt, isVideoExt } from '@/lib/image-formats';
+import { formatFileSize, getFileUrl, isEditableTarget, loadImage, postFileOp } from '@/lib/utils';
 
-// 定义文件/目录项的类型
-type FSItem = {
+// 图库根目录
+type LibraryRoot = {
   name: string;
-  type: 'directory' | 'file';
   path: string;
-  ext: string;
 };
 
 type DirectoryData = {
   path: string;
   absolutePath: string;
+  root: LibraryRoot;
   items: FSItem[];
+  total: number;
+  nextCursor: string | null;
 };
 
-// 支持的图片扩展名
-const IMAGE_EXTS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg', '.tiff', '.tif', '.ico'];
+// 目录排序设置
+type ListSort = {
+  sort: SortMode;
+  order: SortOrder;
+};
+
+const SORT_OPTIONS: { value: SortMode; label: string }[] = [
+  { value: 'natural', label: '名称（自然排序）' },
+  { value: 'name', label: '名称' },
+  { value: 'mtime', label: '修改时间' },
+  { value: 'size', label: '大小' },
+  { value: 'type', label: '类型' },
+  { value: 'rating', label: '评分' },
+];
+
+// 目录筛选条件：最低星级（0 为不限）、颜色标签、仅收藏、标签
+type ListFilter = {
+  rating: number;
+  label: ColorLabel | '';
+  favorite: boolean;
+  tag: string;
+};
+
+const EMPTY_LIST_FILTER: ListFilter = { rating: 0, label: '', favorite: false, tag: '' };
+
+// 地址栏中保存的浏览状态：?path=目录&image=打开的图片&sort=...&order=...&rating=...&label=...&favorite=1&tag=...&panorama=1
+// 刷新页面或分享链接后恢复到同一目录和图片
+type UrlState = {
+  path: string;
+  image: string | null;
+  sort: ListSort;
+  filter: ListFilter;
+  panorama: boolean;
+};
+
+const DEFAULT_LIST_SORT: ListSort = { sort: 'natural', order: 'asc' };
+
+function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+  const label = params.get('label');
+  return {
+    path: params.get('path') ?? '',
+    image: params.get('image'),
+    sort: {
+      sort: SORT_OPTIONS.some(option => option.value === params.get('sort')) ? params.get('sort') as SortMode : DEFAULT_LIST_SORT.sort,
+      order: params.get('order') === 'desc' ? 'desc' : 'asc',
+    },
+    filter: {
+      rating: Math.min(Math.max(parseInt(params.get('rating') || '0', 10) || 0, 0), 5),
+      label: COLOR_LABELS.includes(label as ColorLabel) ? label as ColorLabel : '',
+      favorite: params.get('favorite') === '1',
+      tag: params.get('tag') ?? '',
+    },
+    panorama: params.get('panorama') === '1',
+  };
+}
+
+// 生成地址栏的查询字符串，省略默认值
+function buildUrlSearch(state: UrlState): string {
+  const params = new URLSearchParams({ path: state.path });
+  if (state.image) params.set('image', state.image);
+  if (state.sort.sort !== DEFAULT_LIST_SORT.sort) params.set('sort', state.sort.sort);
+  if (state.sort.order !== DEFAULT_LIST_SORT.order) params.set('order', state.sort.order);
+  if (state.filter.rating > 0) params.set('rating', String(state.filter.rating));
+  if (state.filter.label) params.set('label', state.filter.label);
+  if (state.filter.favorite) params.set('favorite', '1');
+  if (state.filter.tag) params.set('tag', state.filter.tag);
+  if (state.panorama) params.set('panorama', '1');
+  return `?${params}`;
+}
+
+function isSameListState(a: Pick<UrlState, 'sort' | 'filter'>, b: Pick<UrlState, 'sort' | 'filter'>): boolean {
+  return a.sort.sort === b.sort.sort
+    && a.sort.order === b.sort.order
+    && a.filter.rating === b.filter.rating
+    && a.filter.label === b.filter.label
+    && a.filter.favorite === b.filter.favorite
+    && a.filter.tag === b.filter.tag;
+}
+
+// 查看器中 6-9 键对应的颜色标签（与 Lightroom 相同，紫色没有快捷键）
+const LABEL_KEYS: Record<string, ColorLabel> = { '6': 'red', '7': 'yellow', '8': 'green', '9': 'blue' };
+
+// 每页加载的条目数
+const LIST_PAGE_SIZE = 500;
+
+// 搜索结果流中的一行
+type SearchEvent =
+  | { type: 'item'; item: FSItem }
+  | { type: 'done'; count: number; truncated: boolean };
+
+// 按目录的排序设置把条目插入到已排序的列表中
+function insertSorted(items: FSItem[], item: FSItem, listSort: ListSort): FSItem[] {
+  const compare = compareEntries(listSort.sort, listSort.order);
+  const toEntry = (entry: FSItem) => ({
+    name: entry.name,
+    isDirectory: entry.type === 'directory',
+    ext: entry.ext,
+    size: entry.size,
+    mtimeMs: entry.mtime ? Date.parse(entry.mtime) : undefined,
+    rating: entry.rating,
+  });
+  const target = toEntry(item);
+  const index = items.findIndex(entry => compare(target, toEntry(entry)) < 0);
+  return index === -1 ? [...items, item] : [...items.slice(0, index), item, ...items.slice(index)];
+}
+
+// 用修改后的整理信息替换条目中原来的字段
+function applyAnnotation(item: FSItem, annotation: Annotation): FSItem {
+  return {
+    ...item,
+    rating: undefined,
+    label: undefined,
+    favorite: undefined,
+    tags: undefined,
+    ...toAnnotationFields(annotation),
+  };
+}
+
+function getParentPath(path: string): string {
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+// 图片所在的目录；压缩包根目录中的图片为 book.cbz!/
+function getImageDirectory(path: string): string {
+  const parent = getParentPath(path);
+  return parent.endsWith('!') ? `${parent}/` : parent;
+}
+
+// ZIP 打包下载地址；recursive 为 true 时包含子目录
+function getArchiveUrl(paths: string[], recursive: boolean) {
+  const params = new URLSearchParams();
+  paths.forEach(path => params.append('path', path));
+  if (recursive) params.set('recursive', '1');
+  return `/api/fs/archive?${params}`;
+}
 
-// 预加载图片的批次数
-const PRELOAD_BATCH_SIZE = 20;
+// 通过临时链接下载，不离开当前页面
+function downloadUrl(url: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = '';
+  link.click();
+}
+
+// 确认和提示中的条目描述：单个条目显示名称，多个显示数量
+function describeItems(items: FSItem[]): string {
+  return items.length === 1 ? `“${items[0].name}”` : ` ${items.length} 个项目`;
+}
+
+// 撤销删除提示的显示时间（毫秒）
+const UNDO_TIMEOUT = 10000;
+
+// 幻灯片只播放图片，跳过视频
+function buildImageSlideshowOrder(items: FSItem[], shuffle: boolean, first: number) {
+  return buildSlideshowOrder(items.length, shuffle, first).filter(i => !isVideoExt(items[i].ext));
+}
 
 export default function Home() {
   // 当前目录路径
-  const [currentPath, setCurrentPath] = useState<string>('~');
+  const [currentPath, setCurrentPath] = useState<string>('');
   // 目录内容
   const [directoryData, setDirectoryData] = useState<DirectoryData | null>(null);
   // 加载状态
@@ -40,23 +231,105 @@ export default function Home() {
   const [imageList, setImageList] = useState<FSItem[]>([]);
   const [currentImagePath, setCurrentImagePath] = useState<string>('');
   const viewerRef = useRef<HTMLDivElement>(null);
+  // 图片信息面板
+  const [infoOpen, setInfoOpen] = useState<boolean>(false);
+  // 全景图以球面方式显示
+  const [panoramaMode, setPanoramaMode] = useState<boolean>(false);
+  // 按拍摄原样查看：不按 EXIF 方向摆正、不做色彩管理，用于检查原始数据
+  const [asShot, setAsShot] = useState<boolean>(false);
+  const { metadata: currentMetadata } = useImageMetadata(viewerOpen ? currentImagePath : null);
+  const isPanorama = currentMetadata?.isPanorama ?? false;
+  const currentExt = imageList[currentImageIndex]?.ext ?? '';
+  // 只有静态的位图能按拍摄原样查看
+  const canViewAsShot = isImageExt(currentExt) && !isAnimatedImageExt(currentExt) && currentExt !== '.svg' && currentExt !== '.ico';
+  // 旋转/翻转/裁剪后的文件版本（路径 -> 保存时间），用于刷新图片和缩略图
+  const [fileVersions, setFileVersions] = useState<Record<string, number>>({});
+  const currentVersion = fileVersions[currentImagePath];
+  // 裁剪模式；transforming 为保存中，忽略重复的操作
+  const [cropMode, setCropMode] = useState<boolean>(false);
+  const [transforming, setTransforming] = useState<boolean>(false);
+  // 压缩包内的图片只读；阅读漫画时可以从右向左翻页（左方向键为下一页）
+  const inArchive = isArchiveEntryPath(currentImagePath);
+  const [rightToLeft, setRightToLeft] = useState<boolean>(false);
   
-  // 预加载相关状态
-  const [preloadedImages, setPreloadedImages] = useState<Set<string>>(new Set());
-  const [lastPreloadedIndex, setLastPreloadedIndex] = useState<number>(-1);
+  // 幻灯片状态：播放顺序为 imageList 的索引，为 null 表示未在幻灯片模式
+  const [slideshowSettings, setSlideshowSettings] = useState<SlideshowSettings>(DEFAULT_SLIDESHOW_SETTINGS);
+  const [slideshowOrder, setSlideshowOrder] = useState<number[] | null>(null);
+  const [slideshowPlaying, setSlideshowPlaying] = useState<boolean>(false);
+  // 幻灯片播放时不能编辑
+  const canTransform = isTransformableExt(currentExt) && !slideshowOrder && !inArchive;
+  // 预加载当前图片前后的图片（随机播放幻灯片时由幻灯片自己预加载下一张）
+  useImagePrefetch(
+    imageList,
+    currentImageIndex,
+    viewerOpen && !(slideshowOrder && slideshowSettings.shuffle),
+    item => getFileUrl(item.path, fileVersions[item.path], asShot)
+  );
   
   // 路径输入状态
   const [inputPath, setInputPath] = useState<string>('');
   
+  // 服务器配置的图库根目录
+  const [libraryRoots, setLibraryRoots] = useState<LibraryRoot[]>([]);
+  
   // 缩略图加载失败记录
   const [failedThumbnails, setFailedThumbnails] = useState<Set<string>>(new Set());
   
-  // 获取目录列表
-  const fetchDirectory = useCallback(async (path: string) => {
+  // 排序设置（ref 供 fetchDirectory 读取最新值）
+  const [listSort, setListSort] = useState<ListSort>(DEFAULT_LIST_SORT);
+  const listSortRef = useRef<ListSort>(listSort);
+  // 正在加载下一页
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  // 按评分、颜色标签、收藏和标签筛选目录
+  const [listFilter, setListFilter] = useState<ListFilter>(EMPTY_LIST_FILTER);
+  const listFilterRef = useRef<ListFilter>(listFilter);
+  
+  // 搜索状态（searchResults 不为 null 时网格显示搜索结果）
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [searchImagesOnly, setSearchImagesOnly] = useState<boolean>(true);
+  const [searchResults, setSearchResults] = useState<FSItem[] | null>(null);
+  const [searching, setSearching] = useState<boolean>(false);
+  const [searchTruncated, setSearchTruncated] = useState<boolean>(false);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  
+  // 最近一次删除，可撤销（从回收站恢复）
+  const [undoTrash, setUndoTrash] = useState<{ ids: string[]; message: string } | null>(null);
+  // 导出对话框中的图片，为 null 时不显示
+  const [exportPaths, setExportPaths] = useState<string[] | null>(null);
+  // 对比查看的图片，为 null 时不显示
+  const [compareItems, setCompareItems] = useState<FSItem[] | null>(null);
+  
+  // 构建目录列表请求地址；paged 为 false 时一次返回全部条目
+  const buildListUrl = (path: string, cursor?: string, paged: boolean = true) => {
+    const params = new URLSearchParams({
+      path,
+      stat: 'true',
+      sort: listSortRef.current.sort,
+      order: listSortRef.current.order,
+    });
+    if (paged) {
+      params.set('limit', String(LIST_PAGE_SIZE));
+    }
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+    const filter = listFilterRef.current;
+    if (filter.rating > 0) params.set('rating', String(filter.rating));
+    if (filter.label) params.set('label', filter.label);
+    if (filter.favorite) params.set('favorite', '1');
+    if (filter.tag) params.set('tag', filter.tag);
+    return `/api/fs/list?${params}`;
+  };
+  
+  // 获取目录列表，返回加载的目录（失败时为 null）
+  const fetchDirectory = useCallback(async (path: string): Promise<DirectoryData | null> => {
     setLoading(true);
     setError(null);
+    // 切换目录时结束搜索
+    searchAbortRef.current?.abort();
+    setSearchResults(null);
     try {
-      const response = await fetch(`/api/fs/list?path=${encodeURIComponent(path)}`);
+      const response = await fetch(buildListUrl(path));
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
@@ -66,52 +339,149 @@ export default function Home() {
       setCurrentPath(data.path);
       // 重置失败记录，因为目录已更改
       setFailedThumbnails(new Set());
-      // 重置预加载状态
-      setPreloadedImages(new Set());
-      setLastPreloadedIndex(-1);
+      return data;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load directory');
       console.error('Error fetching directory:', err);
+      return null;
     } finally {
       setLoading(false);
     }
   }, []);
   
-  // 初始加载
-  useEffect(() => {
-    fetchDirectory('~');
-  }, [fetchDirectory]);
+  // 加载目录的下一页
+  const loadMoreItems = async () => {
+    if (!directoryData?.nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const response = await fetch(buildListUrl(directoryData.path, directoryData.nextCursor));
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+      const data: DirectoryData = await response.json();
+      // 目录在加载期间有变化时，分页位置可能偏移，跳过已显示的条目
+      setDirectoryData(prev => {
+        if (!prev || prev.path !== data.path) return prev;
+        const loaded = new Set(prev.items.map(item => item.path));
+        return { ...data, items: [...prev.items, ...data.items.filter(item => !loaded.has(item.path))] };
+      });
+    } catch (err) {
+      console.error('Error fetching more items:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
   
-  // 预加载图片函数
-  const preloadImages = useCallback((startIndex: number, count: number = PRELOAD_BATCH_SIZE) => {
-    if (!imageList || imageList.length === 0) return;
+  // 在当前目录下递归搜索，结果逐行流式返回
+  const runSearch = async () => {
+    const query = searchQuery.trim();
+    if (!query || !directoryData) return;
     
-    const endIndex = Math.min(startIndex + count, imageList.length);
-    const newPreloadedImages = new Set(preloadedImages);
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
     
-    for (let i = startIndex; i < endIndex; i++) {
-      const imagePath = imageList[i].path;
-      if (!newPreloadedImages.has(imagePath)) {
-        // 创建Image对象进行预加载
-        const img = new window.Image();
-        img.src = `/api/fs/file?path=${encodeURIComponent(imagePath)}`;
-        newPreloadedImages.add(imagePath);
-      }
-    }
+    setSearchResults([]);
+    setSearchTruncated(false);
+    setSearching(true);
     
-    setPreloadedImages(newPreloadedImages);
-    setLastPreloadedIndex(endIndex - 1);
+    const params = new URLSearchParams({ path: directoryData.path, q: query });
+    if (searchImagesOnly) {
+      params.set('ext', MEDIA_EXTS.join(','));
+    }
     
-    console.log(`预加载图片: 索引 ${startIndex} 到 ${endIndex - 1}`);
-  }, [imageList, preloadedImages]);
+    try {
+      const response = await fetch(`/api/fs/search?${params}`, { signal: controller.signal });
+      if (!response.ok || !response.body) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+      
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        
+        // 每次读取到的结果一起追加，减少渲染次数
+        const batch: FSItem[] = [];
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: SearchEvent = JSON.parse(line);
+          if (event.type === 'item') {
+            batch.push(event.item);
+          } else {
+            setSearchTruncated(event.truncated);
+          }
+        }
+        if (batch.length > 0) {
+          setSearchResults(prev => [...(prev ?? []), ...batch]);
+        }
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Search failed');
+      console.error('Error searching:', err);
+    } finally {
+      if (searchAbortRef.current === controller) {
+        setSearching(false);
+      }
+    }
+  };
   
-  // 打开图片查看器时预加载前20张图片
-  const openImageViewerWithPreload = useCallback((item: FSItem) => {
-    if (!directoryData) return;
-    
-    // 获取当前目录中的所有图片文件
-    const imageItems = directoryData.items.filter(
-      item => item.type === 'file' && IMAGE_EXTS.includes(item.ext.toLowerCase())
+  // 停止搜索，保留已找到的结果
+  const stopSearch = () => {
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
+    setSearching(false);
+  };
+  
+  // 退出搜索，回到目录列表
+  const clearSearch = () => {
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
+    setSearching(false);
+    setSearchResults(null);
+  };
+  
+  // 网格中显示的条目：搜索结果或当前目录内容
+  const displayedItems = useMemo(
+    () => searchResults ?? directoryData?.items ?? [],
+    [searchResults, directoryData]
+  );
+  
+  // 修改排序方式后重新加载当前目录
+  const handleSortChange = (sort: ListSort) => {
+    listSortRef.current = sort;
+    setListSort(sort);
+    fetchDirectory(currentPath);
+  };
+  
+  // 修改筛选条件后重新加载当前目录
+  const handleFilterChange = (filter: ListFilter) => {
+    listFilterRef.current = filter;
+    setListFilter(filter);
+    fetchDirectory(currentPath);
+  };
+  
+  // 获取图库根目录列表
+  useEffect(() => {
+    fetch('/api/fs/roots')
+      .then(response => response.ok ? response.json() : { roots: [] })
+      .then((data: { roots: LibraryRoot[] }) => setLibraryRoots(data.roots))
+      .catch(err => console.error('Error fetching library roots:', err));
+  }, []);
+  
+  // 打开图片查看器，当前图片前后的图片由 useImagePrefetch 预加载；items 默认为当前显示的条目
+  const openImageViewerWithPreload = useCallback((item: FSItem, items: FSItem[] = displayedItems) => {
+    // 获取当前显示的所有图片文件（目录内容或搜索结果）
+    const imageItems = items.filter(
+      item => item.type === 'file' && isMediaExt(item.ext)
     );
     
     // 找到当前图片在列表中的索引
@@ -121,25 +491,48 @@ export default function Home() {
     setImageList(imageItems);
     setCurrentImageIndex(index);
     setCurrentImagePath(item.path);
+    setCropMode(false);
     setViewerOpen(true);
-    
-    // 重置预加载状态
-    setPreloadedImages(new Set());
-    setLastPreloadedIndex(-1);
-    
-    // 预加载当前图片周围的20张图片
-    // 从当前索引开始预加载
-    setTimeout(() => {
-      preloadImages(index, PRELOAD_BATCH_SIZE);
-    }, 100);
-  }, [directoryData, preloadImages]);
+    setSlideshowOrder(null);
+    setSlideshowPlaying(false);
+  }, [displayedItems]);
+  
+  // 打开压缩包：直接在查看器中从第一页开始阅读，没有图片时作为目录进入
+  const openArchive = async (item: FSItem) => {
+    try {
+      let path = item.path;
+      let items: FSItem[] = [];
+      // 整个目录被打包时压缩包内只有一个目录，进入该目录
+      for (let depth = 0; depth < 3; depth++) {
+        const response = await fetch(`/api/fs/list?${new URLSearchParams({ path, sort: 'natural' })}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        }
+        items = (await response.json() as DirectoryData).items;
+        if (items.length !== 1 || items[0].type !== 'directory') break;
+        path = items[0].path;
+      }
+      
+      const first = items.find(entry => entry.type === 'file' && isMediaExt(entry.ext));
+      if (first) {
+        openImageViewerWithPreload(first, items);
+      } else {
+        fetchDirectory(path);
+      }
+    } catch (err) {
+      alert(`无法打开压缩包: ${err instanceof Error ? err.message : err}`);
+    }
+  };
   
   // 处理目录项双击
   const handleItemDoubleClick = (item: FSItem) => {
     if (item.type === 'directory') {
       // 进入子目录
       fetchDirectory(item.path);
-    } else if (IMAGE_EXTS.includes(item.ext.toLowerCase())) {
+    } else if (isArchiveExt(item.ext)) {
+      openArchive(item);
+    } else if (isMediaExt(item.ext)) {
       // 打开图片查看器（带预加载）
       openImageViewerWithPreload(item);
     } else {
@@ -148,6 +541,184 @@ export default function Home() {
     }
   };
   
+  // 文件修改后刷新列表：搜索结果在本地更新，目录列表重新加载
+  const refreshAfterChange = (update?: (items: FSItem[]) => FSItem[]) => {
+    if (searchResults && update) {
+      setSearchResults(update(searchResults));
+    } else {
+      fetchDirectory(currentPath);
+    }
+  };
+  
+  // 重命名后更新查看器中的列表
+  const applyRenameToViewer = (oldPath: string, item: FSItem) => {
+    setImageList(list => list.map(entry => entry.path === oldPath ? item : entry));
+    if (currentImagePath === oldPath) {
+      setCurrentImagePath(item.path);
+    }
+  };
+  
+  // 从查看器中移除已删除/移走的文件，停留在同一位置的下一张
+  const removeFromViewer = (paths: string[]) => {
+    const nextList = imageList.filter(entry => !paths.includes(entry.path));
+    if (nextList.length === imageList.length) return;
+    stopSlideshow();
+    if (nextList.length === 0) {
+      setViewerOpen(false);
+      return;
+    }
+    const nextIndex = Math.min(currentImageIndex, nextList.length - 1);
+    setImageList(nextList);
+    setCurrentImageIndex(nextIndex);
+    setCurrentImagePath(nextList[nextIndex].path);
+  };
+  
+  const handleRename = async (item: FSItem) => {
+    const name = window.prompt('新名称', item.name)?.trim();
+    if (!name || name === item.name) return;
+    try {
+      const { path } = await postFileOp<{ path: string }>('rename', { path: item.path, name });
+      const dot = name.lastIndexOf('.');
+      const renamed: FSItem = {
+        ...item,
+        name,
+        path,
+        ext: item.type === 'file' && dot > 0 ? name.slice(dot).toLowerCase() : '',
+      };
+      applyRenameToViewer(item.path, renamed);
+      refreshAfterChange(items => items.map(entry => entry.path === item.path ? renamed : entry));
+    } catch (err) {
+      alert(`重命名失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+  
+  // 移动或复制到输入的目录
+  const handleTransfer = async (items: FSItem[], mode: 'move' | 'copy') => {
+    if (items.length === 0) return;
+    const destination = window.prompt(`${mode === 'move' ? '移动' : '复制'}${describeItems(items)}到目录`, currentPath)?.trim();
+    if (!destination) return;
+    const paths = items.map(item => item.path);
+    try {
+      await postFileOp(mode, { paths, destination });
+      if (mode === 'move') {
+        removeFromViewer(paths);
+        refreshAfterChange(list => list.filter(entry => !paths.includes(entry.path)));
+      } else if (!searchResults) {
+        refreshAfterChange();
+      }
+    } catch (err) {
+      alert(`${mode === 'move' ? '移动' : '复制'}失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+  
+  // 删除到回收站，确认后执行，之后可撤销
+  const handleDelete = async (items: FSItem[]) => {
+    if (items.length === 0 || !window.confirm(`将${describeItems(items)}移到回收站？`)) return;
+    const paths = items.map(item => item.path);
+    try {
+      const { trashed } = await postFileOp<{ trashed: { id: string; path: string }[] }>('delete', { paths });
+      setUndoTrash({ ids: trashed.map(entry => entry.id), message: `已将${describeItems(items)}移到回收站` });
+      removeFromViewer(paths);
+      refreshAfterChange(list => list.filter(entry => !paths.includes(entry.path)));
+    } catch (err) {
+      alert(`删除失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+  
+  const handleUndoDelete = async () => {
+    if (!undoTrash) return;
+    setUndoTrash(null);
+    try {
+      await postFileOp('restore', { ids: undoTrash.ids });
+      fetchDirectory(currentPath);
+    } catch (err) {
+      alert(`撤销失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+  
+  const handleCreateFolder = async () => {
+    const name = window.prompt('新文件夹名称')?.trim();
+    if (!name) return;
+    try {
+      await postFileOp('mkdir', { path: currentPath, name });
+      fetchDirectory(currentPath);
+    } catch (err) {
+      alert(`新建文件夹失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+  
+  // 旋转/翻转/裁剪并写回；另存为新文件时新文件排在原图之后
+  const handleTransform = async (item: FSItem, options: TransformOptions) => {
+    if (transforming) return;
+    setTransforming(true);
+    try {
+      const { path } = await postFileOp<{ path: string }>('transform', { path: item.path, ...options });
+      invalidateImageMetadata(path);
+      setFileVersions(versions => ({ ...versions, [path]: Date.now() }));
+      setCropMode(false);
+      if (path !== item.path) {
+        const copy: FSItem = { ...item, name: path.split('/').pop()!, path };
+        const insertCopy = (items: FSItem[]) => items.flatMap(entry => entry.path === item.path ? [entry, copy] : [entry]);
+        setImageList(insertCopy);
+        refreshAfterChange(insertCopy);
+      }
+    } catch (err) {
+      alert(`保存失败: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setTransforming(false);
+    }
+  };
+  
+  const handleCrop = (crop: CropRect, saveAsCopy: boolean) => {
+    handleTransform(imageList[currentImageIndex], { crop, saveAs: saveAsCopy ? 'copy' : 'backup' });
+  };
+  
+  // 修改评分、颜色标签、收藏或标签，在本地更新网格和查看器
+  const handleAnnotate = async (items: FSItem[], patch: AnnotationPatch) => {
+    try {
+      const { annotations } = await postFileOp<{ annotations: Record<string, Annotation> }>('annotations', {
+        paths: items.map(item => item.path),
+        ...patch,
+      });
+      const update = (list: FSItem[]) => list.map(entry => annotations[entry.path] ? applyAnnotation(entry, annotations[entry.path]) : entry);
+      setImageList(update);
+      setSearchResults(prev => prev && update(prev));
+      setDirectoryData(prev => prev && { ...prev, items: update(prev.items) });
+    } catch (err) {
+      alert(`保存失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+  
+  // 编辑标签，多个标签用逗号分隔
+  const handleEditTags = (item: FSItem) => {
+    const input = window.prompt('标签（用逗号分隔）', item.tags?.join(', ') ?? '');
+    if (input === null) return;
+    const tags = input.split(/[,，]/).map(tag => tag.trim()).filter(tag => tag !== '');
+    handleAnnotate([item], { tags });
+  };
+  
+  // 为当前列表中设置过评分、颜色标签或标签的文件导出 XMP 附属文件
+  const handleExportXmp = async () => {
+    const paths = displayedItems
+      .filter(item => item.type === 'file' && (item.rating || item.label || item.tags?.length))
+      .map(item => item.path);
+    if (paths.length === 0) return;
+    try {
+      const { written, skipped } = await postFileOp<{ written: string[]; skipped: string[] }>('annotations/xmp', { paths });
+      alert(`已写入 ${written.length} 个 XMP 文件${skipped.length > 0 ? `，跳过 ${skipped.length} 个（已存在其他软件生成的同名文件）` : ''}`);
+      if (!searchResults) fetchDirectory(currentPath);
+    } catch (err) {
+      alert(`导出 XMP 失败: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+  
+  // 撤销提示一段时间后自动消失
+  useEffect(() => {
+    if (!undoTrash) return;
+    const timer = setTimeout(() => setUndoTrash(null), UNDO_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [undoTrash]);
+  
   // 图片查看器导航
   const navigateImage = (direction: 'prev' | 'next') => {
     if (imageList.length === 0) return;
@@ -159,31 +730,338 @@ export default function Home() {
       newIndex = (currentImageIndex + 1) % imageList.length;
     }
     
+    goToImage(newIndex);
+  };
+  
+  // 切换到指定索引的图片
+  const goToImage = (newIndex: number) => {
     setCurrentImageIndex(newIndex);
     setCurrentImagePath(imageList[newIndex].path);
+  };
+  
+  // 开始幻灯片；startIndex 为空时从当前图片开始
+  const startSlideshow = (startIndex: number = currentImageIndex, items: FSItem[] = imageList) => {
+    const order = buildImageSlideshowOrder(items, slideshowSettings.shuffle, startIndex);
+    if (order.length === 0) return;
+    setSlideshowOrder(order);
+    setSlideshowPlaying(true);
+  };
+  
+  // 从当前目录的第一张图片（随机模式下为任意一张）开始幻灯片
+  const startSlideshowFromFolder = () => {
+    const imageItems = displayedItems.filter(
+      item => item.type === 'file' && isMediaExt(item.ext)
+    );
+    const candidates = imageItems
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => !isVideoExt(item.ext));
+    if (candidates.length === 0) return;
+    const { item, index: first } = slideshowSettings.shuffle
+      ? candidates[Math.floor(Math.random() * candidates.length)]
+      : candidates[0];
+    openImageViewerWithPreload(item);
+    startSlideshow(first, imageItems);
+  };
+  
+  // 空格键：暂停/继续，未在播放时开始
+  const toggleSlideshow = () => {
+    if (slideshowOrder) {
+      setSlideshowPlaying(playing => !playing);
+    } else {
+      startSlideshow();
+    }
+  };
+  
+  const stopSlideshow = () => {
+    setSlideshowOrder(null);
+    setSlideshowPlaying(false);
+  };
+  
+  const updateSlideshowSettings = (settings: SlideshowSettings) => {
+    // 切换随机模式时从当前图片重新生成播放顺序
+    if (slideshowOrder && settings.shuffle !== slideshowSettings.shuffle) {
+      setSlideshowOrder(buildImageSlideshowOrder(imageList, settings.shuffle, currentImageIndex));
+    }
+    setSlideshowSettings(settings);
+  };
+  
+  // 幻灯片自动播放：等间隔时间到且下一张图片已解码后再切换，过渡时不会出现空白
+  useEffect(() => {
+    if (!viewerOpen || !slideshowOrder || !slideshowPlaying || imageList.length === 0) return;
+    
+    const position = slideshowOrder.indexOf(currentImageIndex);
+    const atEnd = position + 1 >= slideshowOrder.length;
+    
+    let nextOrder = slideshowOrder;
+    if (atEnd && slideshowSettings.loop && slideshowSettings.shuffle) {
+      // 随机模式下每一轮重新洗牌
+      nextOrder = buildImageSlideshowOrder(imageList, true, -1);
+    }
+    const nextIndex = atEnd ? nextOrder[0] : slideshowOrder[position + 1];
+    
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const elapsed = new Promise<void>(resolve => {
+      timer = setTimeout(resolve, slideshowSettings.interval * 1000);
+    });
+    const prefetched = atEnd && !slideshowSettings.loop
+      ? Promise.resolve()
+      : loadImage(getFileUrl(imageList[nextIndex].path, fileVersions[imageList[nextIndex].path], asShot));
+    
+    Promise.all([elapsed, prefetched]).then(() => {
+      if (cancelled) return;
+      if (atEnd && !slideshowSettings.loop) {
+        // 不循环时停在最后一张
+        setSlideshowPlaying(false);
+        return;
+      }
+      if (nextOrder !== slideshowOrder) {
+        setSlideshowOrder(nextOrder);
+      }
+      setCurrentImageIndex(nextIndex);
+      setCurrentImagePath(imageList[nextIndex].path);
+    });
     
-    // 检查是否需要预加载更多图片
-    if (newIndex > lastPreloadedIndex - 10 && lastPreloadedIndex < imageList.length - 1) {
-      // 当接近已预加载的末尾时，预加载下一批
-      const nextBatchStart = lastPreloadedIndex + 1;
-      preloadImages(nextBatchStart, PRELOAD_BATCH_SIZE);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [viewerOpen, slideshowOrder, slideshowPlaying, slideshowSettings, imageList, currentImageIndex, fileVersions, asShot]);
+  
+  // 是否位于图库根目录（无法再向上）
+  const atLibraryRoot = !directoryData || directoryData.path === directoryData.root.path;
+  // 正在浏览压缩包内部（只读）
+  const browsingArchive = !!directoryData && isArchiveEntryPath(directoryData.path);
+  
+  // 目录变化后更新查看器中的列表：保持当前图片不变，当前图片被删除时停在同一位置的下一张
+  const updateViewerList = (nextList: FSItem[]) => {
+    if (nextList.length === 0) {
+      stopSlideshow();
+      setViewerOpen(false);
+      return;
+    }
+    let index = nextList.findIndex(item => item.path === currentImagePath);
+    if (index === -1) {
+      index = Math.min(currentImageIndex, nextList.length - 1);
+    }
+    if (slideshowOrder) {
+      // 幻灯片顺序按路径重新对应，新文件排在最后
+      const indexByPath = new Map(nextList.map((item, i) => [item.path, i]));
+      const order = slideshowOrder
+        .map(i => indexByPath.get(imageList[i].path))
+        .filter((i): i is number => i !== undefined);
+      const known = new Set(order);
+      nextList.forEach((item, i) => {
+        if (!known.has(i) && !isVideoExt(item.ext)) order.push(i);
+      });
+      setSlideshowOrder(order);
     }
+    setImageList(nextList);
+    setCurrentImageIndex(index);
+    setCurrentImagePath(nextList[index].path);
   };
   
+  // 服务器推送的文件变化：原位更新网格和查看器，不重新加载目录
+  const handleWatchEvent = useEffectEvent((event: WatchEvent) => {
+    if (!directoryData) return;
+    if (event.type === 'reset') {
+      fetchDirectory(directoryData.path);
+      return;
+    }
+    
+    const path = event.type === 'remove' ? event.path : event.item.path;
+    setDirectoryData(prev => {
+      if (!prev || prev.path !== directoryData.path) return prev;
+      const items = prev.items.filter(item => item.path !== path);
+      if (event.type === 'remove') {
+        return { ...prev, items, total: prev.total - 1 };
+      }
+      const total = event.type === 'add' ? prev.total + 1 - (prev.items.length - items.length) : prev.total;
+      return { ...prev, items: insertSorted(items, event.item, listSort), total };
+    });
+    
+    if (event.type === 'change') {
+      // 文件被其他程序修改时刷新缩略图和查看器（本页面的编辑已经更新过版本号）
+      const modified = Date.parse(event.item.mtime ?? '');
+      if ((fileVersions[path] ?? 0) < modified) {
+        setFileVersions(prev => ({ ...prev, [path]: modified }));
+        invalidateImageMetadata(path);
+      }
+    }
+    
+    // 查看器中是当前目录的图片时一起更新（搜索结果、压缩包中的图片除外）
+    const ext = event.type === 'remove' ? '' : event.item.ext;
+    const viewingDirectory = viewerOpen && imageList.every(item => getParentPath(item.path) === directoryData.path);
+    if (!viewingDirectory) return;
+    if (event.type === 'remove') {
+      if (imageList.some(item => item.path === path)) {
+        updateViewerList(imageList.filter(item => item.path !== path));
+      }
+    } else if (event.item.type === 'file' && isMediaExt(ext)) {
+      updateViewerList(insertSorted(imageList.filter(item => item.path !== path), event.item, listSort));
+    }
+  });
+  
+  // 监视当前目录（压缩包内部不会变化，不监视）
+  const watchedPath = directoryData && !browsingArchive ? directoryData.path : null;
+  useEffect(() => {
+    if (!watchedPath) return;
+    const source = new EventSource(`/api/fs/watch?path=${encodeURIComponent(watchedPath)}`);
+    source.onmessage = (e) => handleWatchEvent(JSON.parse(e.data));
+    return () => source.close();
+  }, [watchedPath]);
+  
+  // 上一次写入地址栏的目录和图片
+  const urlStateRef = useRef<{ path: string; image: string | null } | null>(null);
+  // 正在按地址栏恢复状态（初始加载、后退/前进），期间不写入地址栏
+  const restoringRef = useRef<boolean>(false);
+  // 当前历史记录是本页面打开查看器时添加的，关闭查看器时返回上一条记录
+  const viewerEntryRef = useRef<boolean>(false);
+  
+  // 按地址栏恢复目录、排序和筛选设置以及打开的图片
+  const restoreFromUrl = useEffectEvent(async () => {
+    const state = parseUrlState(window.location.search);
+    restoringRef.current = true;
+    viewerEntryRef.current = false;
+    try {
+      const listChanged = !isSameListState(state, { sort: listSortRef.current, filter: listFilterRef.current });
+      listSortRef.current = state.sort;
+      listFilterRef.current = state.filter;
+      setListSort(state.sort);
+      setListFilter(state.filter);
+      
+      // 空路径表示第一个图库根目录
+      let data = directoryData;
+      if (!data || searchResults || listChanged || (state.path !== '' && state.path !== data.path)) {
+        data = await fetchDirectory(state.path);
+      }
+      if (!data) return;
+      
+      let image: string | null = null;
+      if (state.image) {
+        const imageDirectory = getImageDirectory(state.image);
+        let items = imageDirectory === data.path ? data.items : [];
+        if (!items.some(item => item.path === state.image)) {
+          // 图片在目录后面的分页、子目录（搜索结果）或压缩包中
+          const response = await fetch(buildListUrl(imageDirectory, undefined, false));
+          items = response.ok ? (await response.json() as DirectoryData).items : [];
+        }
+        const item = items.find(entry => entry.path === state.image);
+        if (item) {
+          if (!viewerOpen || currentImagePath !== item.path) {
+            openImageViewerWithPreload(item, items);
+          }
+          setPanoramaMode(state.panorama);
+          image = item.path;
+        }
+      }
+      if (!image) {
+        setViewerOpen(false);
+      }
+      
+      // 规范化地址栏（如补全默认的根目录路径、去掉找不到的图片）
+      urlStateRef.current = { path: data.path, image };
+      window.history.replaceState(null, '', buildUrlSearch({
+        ...state,
+        path: data.path,
+        image,
+        panorama: !!image && state.panorama,
+      }));
+    } finally {
+      restoringRef.current = false;
+    }
+  });
+  
+  // 初始加载时按地址栏打开目录和图片，后退/前进时同样恢复
+  useEffect(() => {
+    restoreFromUrl();
+    const handlePopState = () => {
+      restoreFromUrl();
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+  
+  // 浏览状态写入地址栏：切换目录和打开查看器添加历史记录，切换图片、修改排序筛选等替换当前记录
+  useEffect(() => {
+    if (!directoryData || restoringRef.current) return;
+    const path = directoryData.path;
+    const image = viewerOpen ? currentImagePath : null;
+    const search = buildUrlSearch({
+      path,
+      image,
+      sort: listSort,
+      filter: listFilter,
+      panorama: viewerOpen && panoramaMode,
+    });
+    const last = urlStateRef.current;
+    urlStateRef.current = { path, image };
+    if (search === window.location.search) return;
+    
+    if (last?.image && !image && last.path === path && viewerEntryRef.current) {
+      // 关闭查看器：返回打开查看器之前的记录，前进可以重新打开
+      viewerEntryRef.current = false;
+      restoringRef.current = true;
+      window.history.back();
+    } else if (last && (last.path !== path || (!last.image && image))) {
+      window.history.pushState(null, '', search);
+      viewerEntryRef.current = !!image && last.path === path;
+    } else {
+      window.history.replaceState(null, '', search);
+    }
+  }, [directoryData, viewerOpen, currentImagePath, listSort, listFilter, panoramaMode]);
+  
   // 向上导航
   const handleGoUp = () => {
-    const parts = currentPath.split('/').filter(part => part.length > 0);
-    // 如果已经是根目录，则无法向上
-    if (parts.length <= 1) {
+    if (atLibraryRoot) {
       return;
     }
-    // 构建父路径
-    const parentPath = parts.slice(0, -1).join('/');
-    // 如果父路径为空（理论上不会发生，因为parts.length>=2），则设置为根目录
-    const finalParentPath = parentPath || '/';
+    // 构建父路径（保留开头的 /）
+    const lastSlash = currentPath.replace(/\/+$/, '').lastIndexOf('/');
+    let finalParentPath = lastSlash > 0 ? currentPath.slice(0, lastSlash) : '/';
+    // 压缩包内的目录返回到压缩包根目录（book.cbz!/）
+    if (finalParentPath.endsWith('!') && currentPath.startsWith(`${finalParentPath}/`)) {
+      finalParentPath += '/';
+    }
     fetchDirectory(finalParentPath);
   };
   
+  // 虚拟网格：上万个条目的目录也只渲染可见区域附近的条目和缩略图
+  const {
+    gridRef,
+    grid,
+    start: visibleStart,
+    end: visibleEnd,
+    paddingTop: gridPaddingTop,
+    paddingBottom: gridPaddingBottom,
+    layout: gridLayout,
+  } = useVirtualGrid(displayedItems.length);
+  
+  // 网格的焦点、选择和键盘导航（查看器、对比和导出对话框打开时不响应按键）
+  const {
+    selectedPaths,
+    selectedItems,
+    focusedPath,
+    rubberBand,
+    handleItemClick,
+    handleGridPointerDown,
+    clearSelection,
+  } = useGridSelection({
+    items: displayedItems,
+    resetKey: searchResults ? 'search' : currentPath,
+    grid,
+    layout: gridLayout,
+    enabled: !viewerOpen && !compareItems && !exportPaths && !loading,
+    onOpen: handleItemDoubleClick,
+    onGoUp: handleGoUp,
+    onDelete: items => {
+      if (!browsingArchive) handleDelete(items);
+    },
+  });
+  const selectedFiles = selectedItems.filter(item => item.type === 'file');
+  const selectedImages = selectedFiles.filter(item => isImageExt(item.ext));
+  const selectedSize = selectedFiles.reduce((total, item) => total + (item.size ?? 0), 0);
+  
   // 处理路径输入提交
   const handlePathSubmit = () => {
     if (inputPath.trim()) {
@@ -199,33 +1077,96 @@ export default function Home() {
     }
   };
   
-  // 键盘事件处理
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!viewerOpen) return;
-      
-      switch (e.key) {
-        case 'Escape':
-          setViewerOpen(false);
-          break;
-        case 'ArrowLeft':
-          navigateImage('prev');
-          break;
-        case 'ArrowRight':
-          navigateImage('next');
-          break;
-        default:
-          break;
-      }
-    };
+  // 查看器的键盘快捷键：作为 Effect Event 读取最新的列表、选择和处理函数
+  const handleViewerKeyDown = useEffectEvent((e: globalThis.KeyboardEvent) => {
+    // 裁剪模式下的按键由裁剪组件处理；焦点在查看器中的下拉框、输入框时不处理
+    if (!viewerOpen || cropMode || exportPaths || isEditableTarget(e.target)) return;
     
-    // 添加事件监听器
-    window.addEventListener('keydown', handleKeyDown as any);
-    
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown as any);
-    };
-  }, [viewerOpen, currentImageIndex, imageList]);
+    switch (e.key) {
+      case 'Escape':
+        setViewerOpen(false);
+        break;
+      case 'ArrowLeft':
+        navigateImage(inArchive && rightToLeft ? 'next' : 'prev');
+        break;
+      case 'ArrowRight':
+        navigateImage(inArchive && rightToLeft ? 'prev' : 'next');
+        break;
+      case 'i':
+      case 'I':
+        setInfoOpen(open => !open);
+        break;
+      case 'p':
+      case 'P':
+        setPanoramaMode(mode => !mode);
+        break;
+      case 'o':
+      case 'O':
+        setAsShot(value => !value);
+        break;
+      case ' ':
+        e.preventDefault();
+        toggleSlideshow();
+        break;
+      case 'Delete':
+        if (!inArchive) handleDelete([imageList[currentImageIndex]]);
+        break;
+      // R 顺时针旋转 90°，Shift+R 逆时针；H/V 水平/垂直翻转；C 裁剪
+      case 'r':
+      case 'R':
+        if (canTransform) handleTransform(imageList[currentImageIndex], { rotate: e.shiftKey ? 270 : 90 });
+        break;
+      case 'h':
+      case 'H':
+        if (canTransform) handleTransform(imageList[currentImageIndex], { flip: 'horizontal' });
+        break;
+      case 'v':
+      case 'V':
+        if (canTransform) handleTransform(imageList[currentImageIndex], { flip: 'vertical' });
+        break;
+      case 'c':
+      case 'C':
+        if (canTransform) setCropMode(true);
+        break;
+      // 0-5 评分，6-9 颜色标签（再按一次取消），S 收藏，T 编辑标签；压缩包内的图片不能标记
+      case '0':
+      case '1':
+      case '2':
+      case '3':
+      case '4':
+      case '5':
+        if (!inArchive && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          handleAnnotate([imageList[currentImageIndex]], { rating: Number(e.key) });
+        }
+        break;
+      case '6':
+      case '7':
+      case '8':
+      case '9':
+        if (!inArchive && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          const item = imageList[currentImageIndex];
+          const label = LABEL_KEYS[e.key];
+          handleAnnotate([item], { label: item.label === label ? null : label });
+        }
+        break;
+      case 's':
+      case 'S':
+        if (!inArchive) handleAnnotate([imageList[currentImageIndex]], { favorite: !imageList[currentImageIndex].favorite });
+        break;
+      case 't':
+      case 'T':
+        if (!inArchive) handleEditTags(imageList[currentImageIndex]);
+        break;
+      default:
+        break;
+    }
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => handleViewerKeyDown(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   // 全屏处理
   useEffect(() => {
@@ -266,12 +1207,29 @@ export default function Home() {
     };
   }, [viewerOpen]);
   
-  // 格式化文件大小（暂未实现）
-  const formatFileSize = (size: number) => {
-    if (size < 1024) return `${size} B`;
-    if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
-    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
-  };
+  // 导出对话框（查看器打开时放在查看器内，全屏时才可见）
+  const exportDialog = exportPaths && (
+    <ExportDialog
+      paths={exportPaths}
+      defaultDestination={currentPath}
+      onClose={() => setExportPaths(null)}
+      onExported={() => {
+        if (!searchResults) fetchDirectory(currentPath);
+      }}
+    />
+  );
+  
+  const undoToast = undoTrash && (
+    <div
+      className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 px-4 py-2 rounded-full bg-gray-900/90 text-white text-sm shadow-lg"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <span>{undoTrash.message}</span>
+      <button onClick={handleUndoDelete} className="font-semibold text-blue-300 hover:text-blue-200">
+        撤销
+      </button>
+    </div>
+  );
   
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-black p-4 md:p-8">
@@ -280,7 +1238,7 @@ export default function Home() {
         <div>
           <h1 className="text-3xl font-bold text-gray-800 dark:text-white">图片浏览器</h1>
           <p className="text-gray-600 dark:text-gray-400 mt-2">
-            双击文件夹进入，双击图片文件打开全屏查看器
+            双击文件夹进入，双击图片文件或 ZIP/CBZ 压缩包打开全屏查看器
           </p>
         </div>
         <div className="mt-1">
@@ -296,11 +1254,23 @@ export default function Home() {
             <div className="flex flex-wrap items-center gap-4">
               <button
                 onClick={handleGoUp}
-                disabled={currentPath.split('/').filter(part => part.length > 0).length <= 1}
+                disabled={atLibraryRoot}
                 className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 返回上级
               </button>
+              {libraryRoots.length > 1 && (
+                <select
+                  value={directoryData?.root.path ?? ''}
+                  onChange={(e) => fetchDirectory(e.target.value)}
+                  className="px-3 py-2 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                  title="切换图库"
+                >
+                  {libraryRoots.map(root => (
+                    <option key={root.path} value={root.path}>{root.name}</option>
+                  ))}
+                </select>
+              )}
               <div className="text-sm font-mono text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900 px-3 py-2 rounded-lg">
                 当前路径: {currentPath}
               </div>
@@ -311,8 +1281,14 @@ export default function Home() {
                   onChange={(e) => setInputPath(e.target.value)}
                   onKeyDown={handlePathKeyDown}
                   placeholder="输入路径 (绝对路径或相对路径)"
+                  list="library-roots"
                   className="px-3 py-2 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:text-white w-64"
                 />
+                <datalist id="library-roots">
+                  {libraryRoots.map(root => (
+                    <option key={root.path} value={root.path}>{root.name}</option>
+                  ))}
+                </datalist>
                 <button
                   onClick={handlePathSubmit}
                   disabled={!inputPath.trim()}
@@ -322,14 +1298,180 @@ export default function Home() {
                 </button>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={listSort.sort}
+                onChange={(e) => handleSortChange({ ...listSort, sort: e.target.value as SortMode })}
+                className="px-3 py-2 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                title="排序方式"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleSortChange({ ...listSort, order: listSort.order === 'asc' ? 'desc' : 'asc' })}
+                className="px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                title={listSort.order === 'asc' ? '升序' : '降序'}
+              >
+                {listSort.order === 'asc' ? '↑' : '↓'}
+              </button>
+              <button
+                onClick={startSlideshowFromFolder}
+                disabled={!displayedItems.some(item => item.type === 'file' && isMediaExt(item.ext) && !isVideoExt(item.ext))}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="从当前目录开始幻灯片播放"
+              >
+                幻灯片
+              </button>
+              <button
+                onClick={handleCreateFolder}
+                disabled={!directoryData || browsingArchive}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                新建文件夹
+              </button>
+              <button
+                onClick={() => setExportPaths(displayedItems.filter(item => item.type === 'file' && isImageExt(item.ext)).map(item => item.path))}
+                disabled={browsingArchive || !displayedItems.some(item => item.type === 'file' && isImageExt(item.ext))}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="缩放、转换格式后导出当前列表中的全部图片"
+              >
+                批量导出
+              </button>
+              <button
+                onClick={() => downloadUrl(getArchiveUrl([currentPath], true))}
+                disabled={!directoryData || !!searchResults || browsingArchive}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="将当前目录（包括子目录）打包为 ZIP 下载"
+              >
+                打包下载
+              </button>
+              <button
+                onClick={() => window.open(`/duplicates?path=${encodeURIComponent(currentPath)}`, '_blank')}
+                disabled={!directoryData || browsingArchive}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="查找当前目录（包括子目录）中重复和相似的图片"
+              >
+                查找重复
+              </button>
+              <button
+                onClick={handleExportXmp}
+                disabled={browsingArchive || !displayedItems.some(item => item.type === 'file' && (item.rating || item.label || item.tags?.length))}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="为设置过评分、颜色标签或标签的图片写出同名 .xmp 文件，供 Lightroom 等软件读取"
+              >
+                导出 XMP
+              </button>
+              <button
+                onClick={() => fetchDirectory(currentPath)}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                刷新
+              </button>
+            </div>
+          </div>
+          
+          {/* 搜索 */}
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') runSearch();
+                if (e.key === 'Escape') clearSearch();
+              }}
+              placeholder="在当前目录及子目录中搜索 (支持 * ? 通配符)"
+              className="px-3 py-2 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:text-white w-80"
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={searchImagesOnly}
+                onChange={(e) => setSearchImagesOnly(e.target.checked)}
+              />
+              仅图片和视频
+            </label>
             <button
-              onClick={() => fetchDirectory(currentPath)}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              onClick={runSearch}
+              disabled={!searchQuery.trim() || !directoryData}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              刷新
+              搜索
             </button>
+            {searchResults && (
+              <>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {searching
+                    ? `正在搜索... 已找到 ${searchResults.length} 个`
+                    : `找到 ${searchResults.length} 个结果${searchTruncated ? '（已达上限，请缩小搜索范围）' : ''}`}
+                </span>
+                <button
+                  onClick={searching ? stopSearch : clearSearch}
+                  className="px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                  {searching ? '停止' : '返回目录'}
+                </button>
+              </>
+            )}
           </div>
           
+          {/* 按评分、颜色标签、收藏和标签筛选（只作用于目录列表） */}
+          {!searchResults && !browsingArchive && (
+            <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+              <select
+                value={listFilter.rating}
+                onChange={(e) => handleFilterChange({ ...listFilter, rating: Number(e.target.value) })}
+                className="px-3 py-2 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                title="最低评分"
+              >
+                <option value={0}>全部评分</option>
+                {[1, 2, 3, 4, 5].map(rating => (
+                  <option key={rating} value={rating}>{'★'.repeat(rating)}{rating < 5 ? ' 及以上' : ''}</option>
+                ))}
+              </select>
+              <select
+                value={listFilter.label}
+                onChange={(e) => handleFilterChange({ ...listFilter, label: e.target.value as ColorLabel | '' })}
+                className="px-3 py-2 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                title="颜色标签"
+              >
+                <option value="">全部颜色</option>
+                {COLOR_LABELS.map(label => (
+                  <option key={label} value={label}>{LABEL_STYLES[label].name}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={listFilter.favorite}
+                  onChange={(e) => handleFilterChange({ ...listFilter, favorite: e.target.checked })}
+                />
+                仅收藏
+              </label>
+              <input
+                // 清除筛选后重新挂载以清空输入框
+                key={listFilter.tag}
+                type="search"
+                defaultValue={listFilter.tag}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleFilterChange({ ...listFilter, tag: e.currentTarget.value.trim() });
+                }}
+                placeholder="按标签筛选（回车确认）"
+                className="px-3 py-2 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:text-white w-48"
+              />
+              {listFilter !== EMPTY_LIST_FILTER && (
+                <button
+                  onClick={() => handleFilterChange(EMPTY_LIST_FILTER)}
+                  className="px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                  清除筛选
+                </button>
+              )}
+            </div>
+          )}
+          
           {/* 加载和错误状态 */}
           {loading && (
             <div className="text-center py-12">
@@ -352,23 +1494,53 @@ export default function Home() {
           
           {/* 目录内容 */}
           {!loading && !error && directoryData && (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-              {directoryData.items.map((item) => {
-                const isImage = IMAGE_EXTS.includes(item.ext) && item.type === 'file';
+            <div
+              ref={gridRef}
+              className="relative grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 auto-rows-[13rem] gap-4 select-none"
+              style={{ paddingTop: gridPaddingTop, paddingBottom: gridPaddingBottom }}
+              onPointerDown={handleGridPointerDown}
+            >
+              {/* 框选区域 */}
+              {rubberBand && (
+                <div
+                  className="absolute z-10 border border-blue-500 bg-blue-500/10 pointer-events-none"
+                  style={rubberBand}
+                />
+              )}
+              {displayedItems.slice(visibleStart, visibleEnd).map((item) => {
+                const isImage = isMediaExt(item.ext) && item.type === 'file';
                 const thumbnailFailed = failedThumbnails.has(item.path);
                 
                 return (
                   <div
                     key={item.path}
-                    className={`group relative cursor-pointer rounded-xl p-4 transition-all duration-200 hover:scale-[1.02] hover:shadow-xl ${
+                    data-path={item.path}
+                    className={`group relative h-full cursor-pointer rounded-xl p-4 transition-all duration-200 hover:scale-[1.02] hover:shadow-xl ${
                       item.type === 'directory'
                         ? 'bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 hover:from-blue-100 hover:to-indigo-100 dark:hover:from-blue-900/40 dark:hover:to-indigo-900/40'
                         : isImage
                         ? 'bg-gradient-to-br from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 hover:from-green-100 hover:to-emerald-100 dark:hover:from-green-900/40 dark:hover:to-emerald-900/40'
                         : 'bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900 hover:from-gray-100 hover:to-gray-200 dark:hover:from-gray-700 dark:hover:to-gray-800'
+                    } ${selectedPaths.has(item.path) ? 'ring-2 ring-blue-500' : ''} ${
+                      focusedPath === item.path ? 'outline-2 outline-offset-2 outline-dashed outline-blue-400' : ''
                     }`}
+                    onClick={(e) => handleItemClick(e, item)}
                     onDoubleClick={() => handleItemDoubleClick(item)}
+                    title={searchResults ? item.path : item.name}
                   >
+                    {/* 压缩包内的条目只读 */}
+                    {!browsingArchive && (
+                      <ItemActionsMenu
+                        onRename={() => handleRename(item)}
+                        onMove={() => handleTransfer([item], 'move')}
+                        onCopy={() => handleTransfer([item], 'copy')}
+                        onDelete={() => handleDelete([item])}
+                        onDownload={() => downloadUrl(item.type === 'directory'
+                          ? getArchiveUrl([item.path], true)
+                          : `${getFileUrl(item.path)}&original=1`)}
+                        onExport={item.type === 'file' && isImageExt(item.ext) ? () => setExportPaths([item.path]) : undefined}
+                      />
+                    )}
                     <div className="flex flex-col items-center text-center">
                       {/* 图标/缩略图 */}
                       <div className="mb-3">
@@ -388,16 +1560,22 @@ export default function Home() {
                             </div>
                           ) : (
                             <div className="w-12 h-12 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700 flex items-center justify-center">
-                              <img
-                                src={`/api/fs/thumbnail?path=${encodeURIComponent(item.path)}&size=128`}
-                                alt={item.name}
-                                className="w-full h-full object-cover"
+                              <MediaThumbnail
+                                item={item}
+                                version={fileVersions[item.path]}
                                 onError={() => {
                                   setFailedThumbnails(prev => new Set(prev).add(item.path));
                                 }}
                               />
                             </div>
                           )
+                        ) : isArchiveExt(item.ext) ? (
+                          // 压缩包：双击直接阅读
+                          <div className="w-12 h-12 flex items-center justify-center rounded-full bg-amber-500 text-white">
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                            </svg>
+                          </div>
                         ) : (
                           <div className="w-12 h-12 flex items-center justify-center rounded-full bg-gray-500 text-white">
                             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
@@ -422,6 +1600,18 @@ export default function Home() {
                       }`}>
                         {item.type === 'directory' ? '文件夹' : item.ext.toUpperCase().replace('.', '')}
                       </div>
+                      
+                      {/* 文件大小 */}
+                      {item.type === 'file' && item.size !== undefined && (
+                        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {formatFileSize(item.size)}
+                        </div>
+                      )}
+                      
+                      {/* 评分、颜色标签、收藏和标签 */}
+                      <div className="mt-1 max-h-9 overflow-hidden">
+                        <AnnotationBadges item={item} />
+                      </div>
                     </div>
                   </div>
                 );
@@ -429,8 +1619,23 @@ export default function Home() {
             </div>
           )}
           
+          {/* 分页：加载更多 */}
+          {!loading && !error && !searchResults && directoryData?.nextCursor && (
+            <div className="text-center mt-6">
+              <button
+                onClick={loadMoreItems}
+                disabled={loadingMore}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+              >
+                {loadingMore
+                  ? '正在加载...'
+                  : `加载更多（已显示 ${directoryData.items.length} / ${directoryData.total}）`}
+              </button>
+            </div>
+          )}
+          
           {/* 空目录 */}
-          {!loading && !error && directoryData && directoryData.items.length === 0 && (
+          {!loading && !error && !searchResults && directoryData && directoryData.items.length === 0 && (
             <div className="text-center py-12">
               <div className="text-gray-400 dark:text-gray-500 mb-4">
                 <svg className="w-16 h-16 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
@@ -440,11 +1645,18 @@ export default function Home() {
               <p className="text-gray-500 dark:text-gray-400">此目录为空</p>
             </div>
           )}
+          
+          {/* 无搜索结果 */}
+          {!loading && !error && searchResults && !searching && searchResults.length === 0 && (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+              没有找到匹配的文件
+            </div>
+          )}
         </div>
         
         {/* 底部提示 */}
         <div className="text-center text-gray-500 dark:text-gray-400 text-sm mt-8">
-          <p>提示: 双击文件夹进入，双击图片文件全屏查看。全屏查看时使用左右箭头键切换图片，按ESC退出全屏。</p>
+          <p>提示: 双击文件夹进入，双击图片文件全屏查看。在列表中用方向键、Home/End、PageUp/PageDown 移动，Enter 打开，Backspace 返回上级，直接输入名称跳转；单击选择，Ctrl（Mac 上为 ⌘）+单击多选，Shift+单击或 Shift+方向键选择范围，在空白处拖动框选，Ctrl+A 全选，Esc 取消选择，选中后可在底部批量下载、移动、复制、导出、评分、删除，选择 2-4 张图片后可并排、滑动或按像素差异对比。双击 ZIP/CBZ 压缩包直接阅读（可切换从右向左翻页）。全屏查看时使用左右箭头键切换图片（视频直接播放），滚轮或 +/- 缩放、拖动平移，F 适应窗口、G 填满、Z 原始大小，全景图按 P 切换 360° 查看（L 切换小行星视图），O 切换按拍摄原样（不摆正方向、不做色彩管理）或色彩管理显示，空格开始/暂停幻灯片，Delete 删除到回收站，0-5 评分、6-9 颜色标签、S 收藏、T 编辑标签，R/Shift+R 旋转、H/V 翻转、C 裁剪（修改会写回文件），动画按 K 播放/暂停、逗号/句号逐帧查看，按 I 显示图片信息，按ESC退出全屏。</p>
         </div>
       </main>      {/* 全屏图片查看器 */}
       {viewerOpen && (
@@ -453,27 +1665,313 @@ export default function Home() {
           className="fixed inset-0 z-50 bg-black flex items-center justify-center"
           onClick={() => setViewerOpen(false)}
         >
-          <div className="relative w-full h-full flex items-center justify-center p-4">
-            <img
-              src={`/api/fs/file?path=${encodeURIComponent(currentImagePath)}`}
-              alt={currentImagePath.split('/').pop()}
-              className="max-w-full max-h-full object-contain"
-              onClick={(e) => e.stopPropagation()}
-              style={{
-                // 确保图像在保持比例的同时尽可能大
-                objectFit: 'contain',
-                width: 'auto',
-                height: 'auto',
-                maxWidth: '100%',
-                maxHeight: '100%',
-                // 确保平滑显示
-                imageRendering: 'auto'
-              }}
-            />
+          <div className="relative w-full h-full flex items-center justify-center">
+            {/* 以路径和版本为 key，切换图片或图片被修改时重置缩放/视角状态 */}
+            {cropMode && canTransform ? (
+              <CropOverlay
+                key={`${currentImagePath}@${currentVersion ?? 0}`}
+                src={getFileUrl(currentImagePath, currentVersion)}
+                alt={currentImagePath.split('/').pop()}
+                onApply={handleCrop}
+                onCancel={() => setCropMode(false)}
+                busy={transforming}
+              />
+            ) : isVideoExt(currentExt) ? (
+              <VideoPlayer
+                key={currentImagePath}
+                src={getFileUrl(currentImagePath)}
+                poster={`/api/fs/thumbnail?path=${encodeURIComponent(currentImagePath)}&size=1024`}
+                onBackgroundClick={() => setViewerOpen(false)}
+              />
+            ) : slideshowOrder ? (
+              // 与查看器使用相同的地址，共用预加载和浏览器缓存
+              <SlideshowStage
+                src={getFileUrl(currentImagePath, currentVersion, asShot)}
+                transition={slideshowSettings.transition}
+                onBackgroundClick={() => setSlideshowPlaying(playing => !playing)}
+              />
+            ) : panoramaMode && isPanorama ? (
+              <PanoramaViewer
+                key={`${currentImagePath}@${currentVersion ?? 0}`}
+                src={getFileUrl(currentImagePath, currentVersion)}
+              />
+            ) : isAnimatedImageExt(currentExt) ? (
+              <AnimatedImage
+                key={`${currentImagePath}@${currentVersion ?? 0}`}
+                src={getFileUrl(currentImagePath, currentVersion)}
+                alt={currentImagePath.split('/').pop()}
+                onBackgroundClick={() => setViewerOpen(false)}
+              />
+            ) : (
+              // 切换拍摄原样/色彩管理时 key 不变，保持缩放位置便于对比
+              <ZoomableImage
+                key={`${currentImagePath}@${currentVersion ?? 0}`}
+                src={getFileUrl(currentImagePath, currentVersion, asShot)}
+                alt={currentImagePath.split('/').pop()}
+                onBackgroundClick={() => setViewerOpen(false)}
+              />
+            )}
+            {slideshowOrder ? (
+              <SlideshowControls
+                settings={slideshowSettings}
+                onSettingsChange={updateSlideshowSettings}
+                playing={slideshowPlaying}
+                onTogglePlay={() => setSlideshowPlaying(playing => !playing)}
+                onStop={stopSlideshow}
+                position={slideshowOrder.indexOf(currentImageIndex) + 1}
+                total={slideshowOrder.length}
+              />
+            ) : !cropMode && (
+              <div className="absolute top-4 left-4 flex gap-2">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    startSlideshow();
+                  }}
+                  className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+                  title="幻灯片 (空格)"
+                >
+                  幻灯片
+                </button>
+                {isPanorama && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setPanoramaMode(mode => !mode);
+                    }}
+                    className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+                    title="切换全景模式 (P)"
+                  >
+                    {panoramaMode ? '平面查看' : '360° 全景'}
+                  </button>
+                )}
+                {canViewAsShot && !(panoramaMode && isPanorama) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setAsShot(value => !value);
+                    }}
+                    className={`px-3 py-1 rounded-full text-white text-sm transition-colors ${asShot ? 'bg-amber-600/80 hover:bg-amber-600' : 'bg-black/60 hover:bg-black/80'}`}
+                    title={asShot ? '当前按拍摄原样显示（未摆正方向、未做色彩管理），点击切换为色彩管理 (O)' : '当前按 EXIF 方向摆正并做色彩管理，点击切换为拍摄原样 (O)'}
+                  >
+                    {asShot ? '拍摄原样' : '色彩管理'}
+                  </button>
+                )}
+                <a
+                  href={`${getFileUrl(currentImagePath)}&original=1`}
+                  download
+                  onClick={(e) => e.stopPropagation()}
+                  className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+                  title="下载原始文件"
+                >
+                  下载原图
+                </a>
+                {canTransform && (
+                  <>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleTransform(imageList[currentImageIndex], { rotate: 90 });
+                      }}
+                      disabled={transforming}
+                      className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 disabled:opacity-50 transition-colors"
+                      title="顺时针旋转 90° (R，Shift+R 逆时针)"
+                    >
+                      旋转
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setCropMode(true);
+                      }}
+                      disabled={transforming}
+                      className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 disabled:opacity-50 transition-colors"
+                      title="裁剪 (C)"
+                    >
+                      裁剪
+                    </button>
+                  </>
+                )}
+                {inArchive && (
+                  <>
+                    <span className="px-3 py-1 rounded-full bg-black/60 text-white text-sm">
+                      {currentImageIndex + 1} / {imageList.length}
+                    </span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setRightToLeft(value => !value);
+                      }}
+                      className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+                      title="切换翻页方向（从右向左时左方向键为下一页）"
+                    >
+                      {rightToLeft ? '从右向左' : '从左向右'}
+                    </button>
+                  </>
+                )}
+                {isImageExt(currentExt) && !inArchive && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setExportPaths([currentImagePath]);
+                    }}
+                    className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+                    title="缩放、转换格式后导出"
+                  >
+                    导出
+                  </button>
+                )}
+                {!inArchive && (
+                  <>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleAnnotate([imageList[currentImageIndex]], { favorite: !imageList[currentImageIndex].favorite });
+                      }}
+                      className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+                      title="收藏 (S)"
+                    >
+                      {imageList[currentImageIndex]?.favorite ? '取消收藏' : '收藏'}
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleEditTags(imageList[currentImageIndex]);
+                      }}
+                      className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+                      title="编辑标签 (T)"
+                    >
+                      标签
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRename(imageList[currentImageIndex]);
+                      }}
+                      className="px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+                      title="重命名"
+                    >
+                      重命名
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete([imageList[currentImageIndex]]);
+                      }}
+                      className="px-3 py-1 rounded-full bg-black/60 text-red-300 text-sm hover:bg-black/80 transition-colors"
+                      title="移到回收站 (Delete)"
+                    >
+                      删除
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+            {!cropMode && imageList[currentImageIndex] && (
+              <div className="absolute bottom-4 left-4 pointer-events-none">
+                <AnnotationBadges item={imageList[currentImageIndex]} dark />
+              </div>
+            )}
+            {infoOpen && (
+              <ImageInfoPanel key={currentVersion} path={currentImagePath} />
+            )}
+            {undoToast}
+            {exportDialog}
           </div>
         </div>
       )}
       
+      {/* 选择栏：选中的数量和总大小，批量操作 */}
+      {!viewerOpen && selectedItems.length > 0 && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center justify-center gap-2 px-4 py-2 rounded-2xl bg-white/95 dark:bg-gray-800/95 text-sm text-gray-800 dark:text-gray-100 shadow-lg">
+          <span className="mr-2">
+            已选择 {selectedItems.length} 项{selectedFiles.length > 0 ? `，文件共 ${formatFileSize(selectedSize)}` : ''}
+          </span>
+          {!browsingArchive && (
+            <>
+              <button
+                onClick={() => downloadUrl(getArchiveUrl(selectedItems.map(item => item.path), true))}
+                className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                title="打包成 ZIP 下载"
+              >
+                下载
+              </button>
+              <button
+                onClick={() => handleTransfer(selectedItems, 'move')}
+                className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                移动
+              </button>
+              <button
+                onClick={() => handleTransfer(selectedItems, 'copy')}
+                className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                复制
+              </button>
+              <button
+                onClick={() => setExportPaths(selectedImages.map(item => item.path))}
+                disabled={selectedImages.length === 0}
+                className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="导出选中的图片"
+              >
+                导出
+              </button>
+              <select
+                value=""
+                onChange={(e) => handleAnnotate(selectedFiles, { rating: Number(e.target.value) })}
+                disabled={selectedFiles.length === 0}
+                className="px-2 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 disabled:opacity-50"
+                title="为选中的文件评分"
+              >
+                <option value="" disabled>评分</option>
+                {[5, 4, 3, 2, 1].map(rating => (
+                  <option key={rating} value={rating}>{'★'.repeat(rating)}</option>
+                ))}
+                <option value={0}>清除评分</option>
+              </select>
+            </>
+          )}
+          <button
+            onClick={() => setCompareItems(selectedImages)}
+            disabled={selectedImages.length < 2 || selectedImages.length > 4}
+            className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="选择 2-4 张图片后并排、滑动或按像素差异对比"
+          >
+            对比
+          </button>
+          {!browsingArchive && (
+            <button
+              onClick={() => handleDelete(selectedItems)}
+              className="px-3 py-1 rounded-lg bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors"
+              title="移到回收站 (Delete)"
+            >
+              删除
+            </button>
+          )}
+          <button
+            onClick={clearSelection}
+            className="px-3 py-1 rounded-lg text-gray-500 hover:text-gray-800 dark:hover:text-white transition-colors"
+            title="取消选择 (Esc)"
+          >
+            取消选择
+          </button>
+        </div>
+      )}
+      
+      {/* 撤销删除提示（查看器打开时显示在查看器内，全屏时才可见） */}
+      {!viewerOpen && undoToast}
+      {!viewerOpen && exportDialog}
+      
+      {/* 对比查看 */}
+      {compareItems && (
+        <CompareView
+          items={compareItems}
+          versions={fileVersions}
+          asShot={asShot}
+          onClose={() => setCompareItems(null)}
+        />
+      )}
+      
       {/* 全局样式 */}
       <style jsx global>{`
         body {
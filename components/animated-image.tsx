@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ZoomableImage } from '@/components/zoomable-image';
+
+type AnimatedImageProps = {
+  src: string;
+  alt?: string;
+  onBackgroundClick?: () => void;
+};
+
+// 解码状态：loading 检测中；static 非动画或浏览器不支持 ImageDecoder，交给 ZoomableImage 显示
+type DecoderState =
+  | { status: 'loading' }
+  | { status: 'static' }
+  | { status: 'animated'; decoder: ImageDecoder; frameCount: number; width: number; height: number };
+
+// 浏览器对过短的帧间隔按 100ms 处理，这里保持一致
+const MIN_FRAME_DURATION = 20;
+const DEFAULT_FRAME_DURATION = 100;
+
+async function createDecoder(src: string, signal: AbortSignal): Promise<DecoderState> {
+  if (typeof ImageDecoder === 'undefined') return { status: 'static' };
+
+  const response = await fetch(src, { signal });
+  const type = response.headers.get('content-type')?.split(';')[0] ?? '';
+  if (!response.ok || !(await ImageDecoder.isTypeSupported(type))) return { status: 'static' };
+
+  const decoder = new ImageDecoder({ data: await response.arrayBuffer(), type });
+  await decoder.tracks.ready;
+  const track = decoder.tracks.selectedTrack;
+  if (!track || !track.animated || track.frameCount <= 1) {
+    decoder.close();
+    return { status: 'static' };
+  }
+
+  // 读取第一帧得到画面尺寸
+  const { image } = await decoder.decode({ frameIndex: 0 });
+  const { displayWidth: width, displayHeight: height } = image;
+  image.close();
+  return { status: 'animated', decoder, frameCount: track.frameCount, width, height };
+}
+
+// 动画图片（GIF / 动态 WebP / APNG）查看器：播放/暂停和逐帧查看
+// 使用 WebCodecs 的 ImageDecoder 逐帧解码到 canvas；静态图片或浏览器不支持时退回普通的可缩放图片
+export function AnimatedImage({ src, alt, onBackgroundClick }: AnimatedImageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [state, setState] = useState<DecoderState>({ status: 'loading' });
+  const [playing, setPlaying] = useState<boolean>(true);
+  const [frameIndex, setFrameIndex] = useState<number>(0);
+
+  // 创建解码器，切换图片时由父组件更换 key 重新挂载
+  useEffect(() => {
+    const controller = new AbortController();
+    let created: DecoderState | null = null;
+    createDecoder(src, controller.signal)
+      .then(result => {
+        created = result;
+        if (controller.signal.aborted) {
+          if (result.status === 'animated') result.decoder.close();
+          return;
+        }
+        setState(result);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setState({ status: 'static' });
+      });
+    return () => {
+      controller.abort();
+      if (created?.status === 'animated') created.decoder.close();
+    };
+  }, [src]);
+
+  // 绘制当前帧；播放时在该帧的持续时间后切换到下一帧
+  useEffect(() => {
+    if (state.status !== 'animated') return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    state.decoder.decode({ frameIndex }).then(({ image }) => {
+      if (cancelled) {
+        image.close();
+        return;
+      }
+      const context = canvasRef.current?.getContext('2d');
+      if (context) {
+        context.clearRect(0, 0, state.width, state.height);
+        context.drawImage(image, 0, 0);
+      }
+      // VideoFrame.duration 的单位为微秒
+      const duration = image.duration ? image.duration / 1000 : DEFAULT_FRAME_DURATION;
+      image.close();
+      if (playing) {
+        timer = setTimeout(() => {
+          setFrameIndex(index => (index + 1) % state.frameCount);
+        }, duration < MIN_FRAME_DURATION ? DEFAULT_FRAME_DURATION : duration);
+      }
+    }).catch(err => {
+      if (!cancelled) console.error('Error decoding frame:', err);
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [state, frameIndex, playing]);
+
+  // 逐帧查看时自动暂停
+  const stepFrame = useCallback((delta: number) => {
+    if (state.status !== 'animated') return;
+    setPlaying(false);
+    setFrameIndex(index => (index + delta + state.frameCount) % state.frameCount);
+  }, [state]);
+
+  // 键盘快捷键：K 播放/暂停，逗号/句号 上一帧/下一帧
+  useEffect(() => {
+    if (state.status !== 'animated') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case 'k':
+        case 'K':
+          setPlaying(value => !value);
+          break;
+        case ',':
+          stepFrame(-1);
+          break;
+        case '.':
+          stepFrame(1);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [state, stepFrame]);
+
+  if (state.status === 'static') {
+    return <ZoomableImage src={src} alt={alt} onBackgroundClick={onBackgroundClick} />;
+  }
+
+  if (state.status === 'loading') {
+    return (
+      <div className="flex items-center justify-center w-full h-full">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  const buttonClass = 'px-3 py-1 rounded-full hover:bg-white/20 transition-colors';
+
+  return (
+    <div
+      className="relative w-full h-full flex items-center justify-center"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.target === e.currentTarget) onBackgroundClick?.();
+      }}
+    >
+      <canvas
+        ref={canvasRef}
+        width={state.width}
+        height={state.height}
+        aria-label={alt}
+        className="max-w-full max-h-full object-contain"
+        onClick={() => setPlaying(value => !value)}
+      />
+
+      <div
+        className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-4 py-2 rounded-full bg-black/60 text-white text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button onClick={() => stepFrame(-1)} className={buttonClass} title="上一帧 (,)">
+          上一帧
+        </button>
+        <button onClick={() => setPlaying(value => !value)} className={buttonClass} title="播放/暂停 (K)">
+          {playing ? '暂停' : '播放'}
+        </button>
+        <button onClick={() => stepFrame(1)} className={buttonClass} title="下一帧 (.)">
+          下一帧
+        </button>
+        <span className="font-mono text-gray-300">{frameIndex + 1} / {state.frameCount}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { ColorLabel, FSItem } from '@/lib/fs-items';
+
+// 颜色标签的名称和显示颜色
+export const LABEL_STYLES: Record<ColorLabel, { name: string; className: string }> = {
+  red: { name: '红色', className: 'bg-red-500' },
+  yellow: { name: '黄色', className: 'bg-yellow-400' },
+  green: { name: '绿色', className: 'bg-green-500' },
+  blue: { name: '蓝色', className: 'bg-blue-500' },
+  purple: { name: '紫色', className: 'bg-purple-500' },
+};
+
+type AnnotationBadgesProps = {
+  item: FSItem;
+  // 查看器中显示在深色背景上
+  dark?: boolean;
+};
+
+// 评分星级、颜色标签、收藏和标签；都未设置时不显示
+export function AnnotationBadges({ item, dark = false }: AnnotationBadgesProps) {
+  if (!item.rating && !item.label && !item.favorite && !item.tags?.length) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center justify-center gap-1 text-xs ${dark ? 'text-white' : 'text-gray-600 dark:text-gray-300'}`}>
+      {item.label && (
+        <span
+          className={`inline-block w-3 h-3 rounded-full ${LABEL_STYLES[item.label].className}`}
+          title={LABEL_STYLES[item.label].name}
+        />
+      )}
+      {!!item.rating && (
+        <span className="text-amber-400 tracking-tighter" title={`${item.rating} 星`}>
+          {'★'.repeat(item.rating)}
+        </span>
+      )}
+      {item.favorite && <span className="text-pink-500" title="收藏">♥</span>}
+      {item.tags?.map(tag => (
+        <span
+          key={tag}
+          className={`px-1.5 rounded-full ${dark ? 'bg-white/20' : 'bg-gray-200 dark:bg-gray-700'}`}
+        >
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, type ReactNode } from 'react';
+import type { FSItem } from '@/lib/fs-items';
+import type { CompareStats } from '@/lib/image-compare';
+import { getFileUrl } from '@/lib/utils';
+import { ZoomableImage, type ZoomView } from '@/components/zoomable-image';
+
+// 对比模式：并排（同步缩放/平移）、滑动对比（A/B 分隔线）、差异图（服务器计算）
+type CompareMode = 'side' | 'swipe' | 'diff';
+
+type DiffResult = {
+  // 对应的请求参数，用于判断是否为当前的两张图片
+  key: string;
+  url: string | null;
+  stats: CompareStats | null;
+  error: string | null;
+};
+
+const MODES: { value: CompareMode; label: string }[] = [
+  { value: 'side', label: '并排' },
+  { value: 'swipe', label: '滑动对比' },
+  { value: 'diff', label: '差异' },
+];
+
+// 差异阈值选项（通道差值）
+const THRESHOLD_OPTIONS = [0, 4, 10, 24, 48];
+
+// 所有窗格共用的视角，初始为完整显示：小图也放大，尺寸不同的图片显示为相同大小
+const INITIAL_VIEW: ZoomView = { mode: 'custom', zoom: 1, cx: 0.5, cy: 0.5 };
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 64;
+const ZOOM_STEP = 1.25;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+type ComparePaneProps = {
+  src: string;
+  // 滑动对比的第二张图片，只显示在分隔线右侧
+  overlaySrc?: string;
+  split?: number;
+  onSplitChange?: (split: number) => void;
+  view: ZoomView;
+  onViewChange: (update: (view: ZoomView) => ZoomView) => void;
+  caption?: ReactNode;
+};
+
+// 对比窗格：滚轮缩放、拖动平移，视角与其他窗格同步
+function ComparePane({ src, overlaySrc, split = 50, onSplitChange, view, onViewChange, caption }: ComparePaneProps) {
+  const paneRef = useRef<HTMLDivElement>(null);
+
+  // 拖动分隔线改变位置
+  const handleSplitPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = paneRef.current!.getBoundingClientRect();
+    onSplitChange?.(clamp((e.clientX - rect.left) / rect.width * 100, 0, 100));
+  };
+
+  return (
+    <div ref={paneRef} className="relative flex-1 min-w-0 h-full bg-black">
+      <ZoomableImage
+        src={src}
+        overlaySrc={overlaySrc}
+        overlaySplit={split}
+        view={view}
+        onViewChange={onViewChange}
+        keyboardShortcuts={false}
+      />
+
+      {overlaySrc && (
+        <div
+          className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-white/80 cursor-ew-resize"
+          style={{ left: `${split}%`, touchAction: 'none' }}
+          onPointerDown={(e) => e.currentTarget.setPointerCapture(e.pointerId)}
+          onPointerMove={handleSplitPointerMove}
+        >
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow" />
+        </div>
+      )}
+
+      <div className="absolute top-3 left-3 max-w-[calc(100%-1.5rem)] px-2 py-1 rounded bg-black/60 text-xs text-white truncate pointer-events-none">
+        {caption}
+      </div>
+    </div>
+  );
+}
+
+type CompareViewProps = {
+  // 2-4 张图片
+  items: FSItem[];
+  // 与查看器相同的图片地址参数：文件修改后的版本号、按拍摄原样查看
+  versions: Record<string, number>;
+  asShot: boolean;
+  onClose: () => void;
+};
+
+// 选中的图片对比查看
+export function CompareView({ items, versions, asShot, onClose }: CompareViewProps) {
+  const [mode, setMode] = useState<CompareMode>('side');
+  const [view, setView] = useState<ZoomView>(INITIAL_VIEW);
+  // 滑动对比和差异模式比较的两张图片
+  const [pair, setPair] = useState<[number, number]>([0, 1]);
+  const [split, setSplit] = useState<number>(50);
+  const [threshold, setThreshold] = useState<number>(10);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  // 当前差异图的对象 URL，换成新的差异图或关闭时释放
+  const diffUrlRef = useRef<string | null>(null);
+
+  const itemA = items[pair[0]];
+  const itemB = items[pair[1]];
+  const diffKey = new URLSearchParams({ a: itemA.path, b: itemB.path, threshold: String(threshold) }).toString();
+  const loadedKey = diff?.key;
+  const diffLoading = mode === 'diff' && loadedKey !== diffKey;
+
+  const getUrl = (item: FSItem) => getFileUrl(item.path, versions[item.path], asShot);
+
+  // 窗格中双击恢复适应窗口时回到初始视角（按适应窗口显示时小图不放大，尺寸不同的图片无法对齐）
+  const updateView = useCallback((update: (view: ZoomView) => ZoomView) => {
+    setView(prev => {
+      const next = update(prev);
+      return next.mode === 'custom' ? next : INITIAL_VIEW;
+    });
+  }, []);
+
+  useEffect(() => () => {
+    if (diffUrlRef.current) URL.revokeObjectURL(diffUrlRef.current);
+  }, []);
+
+  // 差异模式下向服务器请求差异图，统计数据在响应头中；切换模式后回来不重新计算
+  useEffect(() => {
+    if (mode !== 'diff' || loadedKey === diffKey) return;
+    const controller = new AbortController();
+    fetch(`/api/fs/compare?${diffKey}`, { signal: controller.signal })
+      .then(async response => {
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        }
+        const header = (name: string) => response.headers.get(`X-Compare-${name}`) ?? '';
+        const stats: CompareStats = {
+          width: Number(header('Width')),
+          height: Number(header('Height')),
+          meanAbsDiff: Number(header('Mean-Abs-Diff')),
+          changedPercent: Number(header('Changed-Percent')),
+          maxDiff: Number(header('Max-Diff')),
+          threshold: Number(header('Threshold')),
+          resized: header('Resized') === 'true',
+          downscaled: header('Downscaled') === 'true',
+        };
+        const url = URL.createObjectURL(await response.blob());
+        if (controller.signal.aborted) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        if (diffUrlRef.current) URL.revokeObjectURL(diffUrlRef.current);
+        diffUrlRef.current = url;
+        setDiff({ key: diffKey, url, stats, error: null });
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setDiff({ key: diffKey, url: null, stats: null, error: err instanceof Error ? err.message : String(err) });
+      });
+    return () => controller.abort();
+  }, [mode, diffKey, loadedKey]);
+
+  // Esc 关闭，F 恢复适应窗口，+/- 缩放，1/2/3 切换模式
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case 'Escape':
+          onClose();
+          break;
+        case 'f':
+        case 'F':
+          setView(INITIAL_VIEW);
+          break;
+        case '+':
+        case '=':
+          updateView(prev => prev.mode === 'custom'
+            ? { ...prev, zoom: clamp(prev.zoom * ZOOM_STEP, MIN_ZOOM, MAX_ZOOM) }
+            : prev);
+          break;
+        case '-':
+        case '_':
+          updateView(prev => prev.mode === 'custom'
+            ? { ...prev, zoom: clamp(prev.zoom / ZOOM_STEP, MIN_ZOOM, MAX_ZOOM) }
+            : prev);
+          break;
+        case '1':
+        case '2':
+        case '3':
+          setMode(MODES[Number(e.key) - 1].value);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, updateView]);
+
+  const pairSelect = (which: 0 | 1) => (
+    <select
+      value={pair[which]}
+      onChange={(e) => {
+        const index = Number(e.target.value);
+        setPair(prev => which === 0 ? [index, prev[1]] : [prev[0], index]);
+      }}
+      className="max-w-48 px-2 py-1 rounded bg-gray-800 text-white text-sm"
+      title={which === 0 ? '图片 A' : '图片 B'}
+    >
+      {items.map((item, index) => (
+        <option key={item.path} value={index}>{which === 0 ? 'A' : 'B'}: {item.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black text-white">
+      {/* 工具栏 */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-gray-900 text-sm">
+        <div className="flex rounded-full bg-gray-800 p-0.5">
+          {MODES.map((option, index) => (
+            <button
+              key={option.value}
+              onClick={() => setMode(option.value)}
+              className={`px-3 py-1 rounded-full transition-colors ${mode === option.value ? 'bg-blue-500' : 'hover:bg-gray-700'}`}
+              title={`${option.label} (${index + 1})`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {mode !== 'side' && items.length > 2 && (
+          <>
+            {pairSelect(0)}
+            {pairSelect(1)}
+          </>
+        )}
+        {mode === 'diff' && (
+          <select
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="px-2 py-1 rounded bg-gray-800 text-white"
+            title="通道差值超过阈值的像素视为有变化"
+          >
+            {THRESHOLD_OPTIONS.map(value => (
+              <option key={value} value={value}>阈值 {value}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => setView(INITIAL_VIEW)}
+          className="px-3 py-1 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors"
+          title="适应窗口 (F)"
+        >
+          适应窗口
+        </button>
+        <span className="text-gray-400">滚轮缩放、拖动平移，所有窗格同步</span>
+        <button
+          onClick={onClose}
+          className="ml-auto px-3 py-1 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors"
+          title="关闭 (Esc)"
+        >
+          关闭
+        </button>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex gap-1">
+        {/* 以图片地址为 key，更换对比的图片时重新读取尺寸 */}
+        {mode === 'side' && items.map(item => (
+          <ComparePane
+            key={getUrl(item)}
+            src={getUrl(item)}
+            view={view}
+            onViewChange={updateView}
+            caption={item.name}
+          />
+        ))}
+        {mode === 'swipe' && (
+          <ComparePane
+            key={getUrl(itemA)}
+            src={getUrl(itemA)}
+            overlaySrc={getUrl(itemB)}
+            split={split}
+            onSplitChange={setSplit}
+            view={view}
+            onViewChange={updateView}
+            caption={`左: ${itemA.name} · 右: ${itemB.name}`}
+          />
+        )}
+        {mode === 'diff' && (
+          diffLoading ? (
+            <div className="flex-1 flex items-center justify-center text-gray-400">正在计算差异...</div>
+          ) : diff?.error ? (
+            <div className="flex-1 flex items-center justify-center text-red-400">计算差异失败: {diff.error}</div>
+          ) : diff?.url && diff.stats && (
+            <>
+              <ComparePane
+                key={getUrl(itemA)}
+                src={getUrl(itemA)}
+                view={view}
+                onViewChange={updateView}
+                caption={`A: ${itemA.name}`}
+              />
+              <ComparePane
+                key={diff.url}
+                src={diff.url}
+                view={view}
+                onViewChange={updateView}
+                caption={
+                  `平均差异 ${diff.stats.meanAbsDiff} · 变化像素 ${diff.stats.changedPercent}%` +
+                  ` · 最大差值 ${diff.stats.maxDiff}` +
+                  (diff.stats.resized ? ` · B 的尺寸不同，已缩放到 ${diff.stats.width}×${diff.stats.height}` : '') +
+                  (diff.stats.downscaled ? ' · 已缩小比较' : '')
+                }
+              />
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { CropRect } from '@/lib/image-transform';
+
+type CropOverlayProps = {
+  src: string;
+  alt?: string;
+  // saveAsCopy：另存为新文件，不覆盖原图
+  onApply: (crop: CropRect, saveAsCopy: boolean) => void;
+  onCancel: () => void;
+  busy?: boolean;
+};
+
+// 拖动的对象：新建选区、移动选区，或拖动某个角（n/s 与 w/e 组合）
+type DragMode = 'create' | 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+type DragState = {
+  mode: DragMode;
+  // 按下时的指针位置（相对图片的比例）
+  startX: number;
+  startY: number;
+  startRect: CropRect;
+};
+
+// 选区的最小尺寸（相对图片的比例）
+const MIN_SIZE = 0.02;
+// 初始选区：四周各留 10%
+const INITIAL_RECT: CropRect = { x: 0.1, y: 0.1, width: 0.8, height: 0.8 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// 根据拖动计算新的选区
+function updateRect(drag: DragState, x: number, y: number): CropRect {
+  const { startRect: r, startX, startY } = drag;
+  if (drag.mode === 'move') {
+    return {
+      ...r,
+      x: clamp(r.x + x - startX, 0, 1 - r.width),
+      y: clamp(r.y + y - startY, 0, 1 - r.height),
+    };
+  }
+
+  // 新建选区时以按下的点为固定角；拖动角时以对角为固定角
+  let fixedX = startX;
+  let fixedY = startY;
+  if (drag.mode !== 'create') {
+    fixedX = drag.mode.includes('w') ? r.x + r.width : r.x;
+    fixedY = drag.mode.includes('n') ? r.y + r.height : r.y;
+  }
+  const left = Math.min(fixedX, x);
+  const top = Math.min(fixedY, y);
+  return {
+    x: left,
+    y: top,
+    width: Math.max(MIN_SIZE, Math.abs(x - fixedX)),
+    height: Math.max(MIN_SIZE, Math.abs(y - fixedY)),
+  };
+}
+
+// 保证选区在图片范围内
+function clampRect(rect: CropRect): CropRect {
+  const x = clamp(rect.x, 0, 1);
+  const y = clamp(rect.y, 0, 1);
+  return { x, y, width: Math.min(rect.width, 1 - x), height: Math.min(rect.height, 1 - y) };
+}
+
+// 裁剪编辑：图片适应窗口显示，在上面拖出、移动或调整选区；Enter 应用，Esc 取消
+export function CropOverlay({ src, alt, onApply, onCancel, busy }: CropOverlayProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [rect, setRect] = useState<CropRect>(INITIAL_RECT);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [saveAsCopy, setSaveAsCopy] = useState<boolean>(false);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  // 指针位置相对图片的比例
+  const toRelative = (e: React.PointerEvent) => {
+    const bounds = frameRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width, 0, 1),
+      y: clamp((e.clientY - bounds.top) / bounds.height, 0, 1),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode) => {
+    e.stopPropagation();
+    e.preventDefault();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    const { x, y } = toRelative(e);
+    setDrag({ mode, startX: x, startY: y, startRect: rect });
+  };
+
+  const apply = () => {
+    if (!busy) onApply(clampRect(rect), saveAsCopy);
+  };
+
+  // 键盘：Enter 应用，Esc 取消
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        if (!busy) onApply(clampRect(rect), saveAsCopy);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [rect, saveAsCopy, busy, onApply, onCancel]);
+
+  const buttonClass = 'px-3 py-1 rounded-full hover:bg-white/20 transition-colors disabled:opacity-50';
+  const corners: DragMode[] = ['nw', 'ne', 'sw', 'se'];
+
+  return (
+    <div
+      className="relative w-full h-full flex items-center justify-center p-12"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div
+        ref={frameRef}
+        className="relative max-w-full max-h-full select-none touch-none overflow-hidden cursor-crosshair"
+        onPointerDown={(e) => startDrag(e, 'create')}
+        onPointerMove={(e) => {
+          if (!drag) return;
+          const { x, y } = toRelative(e);
+          setRect(updateRect(drag, x, y));
+        }}
+        onPointerUp={() => setDrag(null)}
+        onPointerCancel={() => setDrag(null)}
+      >
+        <img
+          src={src}
+          alt={alt}
+          draggable={false}
+          className="block max-w-full max-h-[calc(100vh-6rem)] object-contain"
+          onLoad={(e) => setImageSize({
+            width: e.currentTarget.naturalWidth,
+            height: e.currentTarget.naturalHeight,
+          })}
+        />
+        {/* 选区，外部用阴影压暗 */}
+        <div
+          className="absolute border border-white cursor-move"
+          style={{
+            left: `${rect.x * 100}%`,
+            top: `${rect.y * 100}%`,
+            width: `${rect.width * 100}%`,
+            height: `${rect.height * 100}%`,
+            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+          }}
+          onPointerDown={(e) => startDrag(e, 'move')}
+        >
+          {corners.map(corner => (
+            <div
+              key={corner}
+              className={`absolute w-3 h-3 bg-white border border-black/50 ${
+                corner.includes('n') ? '-top-1.5' : '-bottom-1.5'
+              } ${corner.includes('w') ? '-left-1.5' : '-right-1.5'} ${
+                corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'
+              }`}
+              onPointerDown={(e) => startDrag(e, corner)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3 px-4 py-2 rounded-full bg-black/60 text-white text-sm">
+        {imageSize && (
+          <span className="font-mono text-gray-300">
+            {Math.round(rect.width * imageSize.width)} × {Math.round(rect.height * imageSize.height)}
+          </span>
+        )}
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={saveAsCopy}
+            onChange={(e) => setSaveAsCopy(e.target.checked)}
+          />
+          另存为新文件
+        </label>
+        <button onClick={apply} disabled={busy} className={buttonClass} title="应用裁剪 (Enter)">
+          {busy ? '正在保存...' : '裁剪'}
+        </button>
+        <button onClick={onCancel} className={buttonClass} title="取消 (Esc)">
+          取消
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import type { ExportFormat, MetadataPolicy } from '@/lib/image-export';
+
+type ExportDialogProps = {
+  // 要导出的图片路径
+  paths: string[];
+  // 保存到目录时的默认目录
+  defaultDestination: string;
+  onClose: () => void;
+  // 保存到目录完成后调用（用于刷新列表）
+  onExported?: (paths: string[]) => void;
+};
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' },
+  { value: 'avif', label: 'AVIF' },
+  { value: 'png', label: 'PNG' },
+];
+
+const METADATA_OPTIONS: { value: MetadataPolicy; label: string }[] = [
+  { value: 'keep', label: '保留全部' },
+  { value: 'strip-gps', label: '去除 GPS 位置' },
+  { value: 'strip', label: '全部去除' },
+];
+
+// 从 Content-Disposition 中取出文件名
+function getDownloadName(header: string | null): string {
+  const encoded = header?.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+  if (encoded) return decodeURIComponent(encoded);
+  return header?.match(/filename="([^"]+)"/)?.[1] ?? 'export';
+}
+
+function parseDimension(value: string): number | undefined {
+  const n = parseInt(value);
+  return n > 0 ? n : undefined;
+}
+
+// 导出对话框：缩放、转换格式、元数据处理，下载或保存到图库中的目录
+export function ExportDialog({ paths, defaultDestination, onClose, onExported }: ExportDialogProps) {
+  const [maxWidth, setMaxWidth] = useState<string>('2048');
+  const [maxHeight, setMaxHeight] = useState<string>('2048');
+  const [format, setFormat] = useState<ExportFormat>('jpeg');
+  const [quality, setQuality] = useState<number>(85);
+  const [metadata, setMetadata] = useState<MetadataPolicy>('strip-gps');
+  // 保存到图库中的目录；否则下载（多张图片打包为 ZIP）
+  const [saveToFolder, setSaveToFolder] = useState<boolean>(false);
+  const [destination, setDestination] = useState<string>(defaultDestination);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/fs/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          paths,
+          maxWidth: parseDimension(maxWidth),
+          maxHeight: parseDimension(maxHeight),
+          format,
+          quality,
+          metadata,
+          destination: saveToFolder ? destination : undefined,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      if (saveToFolder) {
+        const { exported } = await response.json();
+        onExported?.(exported);
+      } else {
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = getDownloadName(response.headers.get('content-disposition'));
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '导出失败');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-white';
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.target === e.currentTarget) onClose();
+      }}
+      onKeyDown={(e) => {
+        // 不触发查看器的快捷键
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="w-96 rounded-xl bg-white dark:bg-gray-800 p-5 shadow-xl text-sm text-gray-700 dark:text-gray-200">
+        <h2 className="mb-4 text-base font-semibold text-gray-800 dark:text-white">
+          导出{paths.length > 1 ? ` ${paths.length} 张图片` : ''}
+        </h2>
+
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <label>
+            最大宽度
+            <input type="number" min={1} value={maxWidth} onChange={(e) => setMaxWidth(e.target.value)} placeholder="不限" className={inputClass} />
+          </label>
+          <label>
+            最大高度
+            <input type="number" min={1} value={maxHeight} onChange={(e) => setMaxHeight(e.target.value)} placeholder="不限" className={inputClass} />
+          </label>
+          <label>
+            格式
+            <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={inputClass}>
+              {FORMAT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            元数据
+            <select value={metadata} onChange={(e) => setMetadata(e.target.value as MetadataPolicy)} className={inputClass}>
+              {METADATA_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {format !== 'png' && (
+          <label className="block mb-3">
+            质量 {quality}
+            <input type="range" min={1} max={100} value={quality} onChange={(e) => setQuality(Number(e.target.value))} className="w-full" />
+          </label>
+        )}
+
+        <div className="mb-3 space-y-1">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={!saveToFolder} onChange={() => setSaveToFolder(false)} />
+            {paths.length > 1 ? '打包下载（ZIP）' : '下载'}
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={saveToFolder} onChange={() => setSaveToFolder(true)} />
+            保存到目录
+          </label>
+          {saveToFolder && (
+            <input type="text" value={destination} onChange={(e) => setDestination(e.target.value)} className={inputClass} />
+          )}
+        </div>
+
+        {error && <p className="mb-3 text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors">
+            取消
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || (saveToFolder && !destination.trim())}
+            className="px-4 py-1.5 rounded-lg bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+          >
+            {exporting ? '正在导出...' : '导出'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useImageMetadata } from '@/hooks/use-image-metadata';
+import { formatFileSize } from '@/lib/utils';
+
+// 曝光时间：小于1秒时显示为分数
+function formatExposure(seconds: number): string {
+  if (seconds >= 1) return `${seconds} s`;
+  return `1/${Math.round(1 / seconds)} s`;
+}
+
+function formatCoordinate(value: number, positive: string, negative: string): string {
+  return `${Math.abs(value).toFixed(6)}° ${value >= 0 ? positive : negative}`;
+}
+
+// 全屏查看器中的图片信息面板
+export function ImageInfoPanel({ path }: { path: string }) {
+  const { loading, metadata, error } = useImageMetadata(path);
+  const exif = metadata?.exif;
+
+  const rows: [string, string | null][] = metadata ? [
+    ['文件名', metadata.name],
+    ['文件大小', formatFileSize(metadata.size)],
+    ['修改时间', new Date(metadata.mtime).toLocaleString()],
+    ['尺寸', metadata.width && metadata.height
+      ? `${metadata.width} × ${metadata.height} (${(metadata.width * metadata.height / 1e6).toFixed(1)} MP)`
+      : null],
+    ['格式', metadata.format?.toUpperCase() ?? null],
+    ['投影', metadata.isPanorama ? `360° 全景${metadata.projectionType ? ` (${metadata.projectionType})` : ''}` : null],
+    ['色彩空间', metadata.colorSpace
+      ? `${metadata.colorSpace}${metadata.hasProfile ? ' (ICC)' : ''}`
+      : null],
+    ['位深', metadata.bitDepth ? `${metadata.bitDepth} bit × ${metadata.channels ?? '?'} 通道` : null],
+    ['相机', exif ? [exif.make, exif.model].filter(Boolean).join(' ') || null : null],
+    ['镜头', exif?.lens ?? null],
+    ['曝光', exif ? [
+      exif.exposureTime ? formatExposure(exif.exposureTime) : null,
+      exif.fNumber ? `f/${exif.fNumber}` : null,
+      exif.iso ? `ISO ${exif.iso}` : null,
+    ].filter(Boolean).join(' · ') || null : null],
+    ['焦距', exif?.focalLength
+      ? `${exif.focalLength} mm${exif.focalLength35mm ? ` (等效 ${exif.focalLength35mm} mm)` : ''}`
+      : null],
+    ['拍摄时间', exif?.dateTimeOriginal ?? null],
+  ] : [];
+
+  return (
+    <div
+      className="absolute top-4 right-4 w-80 max-h-[calc(100%-2rem)] overflow-y-auto rounded-xl bg-black/70 backdrop-blur p-4 text-sm text-gray-100 shadow-xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="font-semibold text-white">图片信息</h2>
+        <span className="text-xs text-gray-400">按 I 关闭</span>
+      </div>
+
+      {loading && (
+        <div className="py-4 text-center text-gray-400">正在读取...</div>
+      )}
+
+      {error && (
+        <div className="text-red-400">错误: {error}</div>
+      )}
+
+      {metadata && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5">
+          {rows.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-400">{label}</dt>
+              <dd className="break-all">{value}</dd>
+            </div>
+          ))}
+          {exif?.gps && (
+            <div className="contents">
+              <dt className="text-gray-400">位置</dt>
+              <dd>
+                <a
+                  href={`https://www.openstreetmap.org/?mlat=${exif.gps.latitude}&mlon=${exif.gps.longitude}#map=15/${exif.gps.latitude}/${exif.gps.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-300 hover:underline"
+                >
+                  {formatCoordinate(exif.gps.latitude, 'N', 'S')}
+                  <br />
+                  {formatCoordinate(exif.gps.longitude, 'E', 'W')}
+                </a>
+                {exif.gps.altitude !== null && (
+                  <div className="text-gray-400">海拔 {exif.gps.altitude.toFixed(0)} m</div>
+                )}
+              </dd>
+            </div>
+          )}
+        </dl>
+      )}
+    </div>
+  );
+}
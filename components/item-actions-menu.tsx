@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+type ItemActionsMenuProps = {
+  onRename: () => void;
+  onMove: () => void;
+  onCopy: () => void;
+  onDelete: () => void;
+  // 文件下载原文件，目录打包为 ZIP 下载
+  onDownload: () => void;
+  // 只有图片可以导出
+  onExport?: () => void;
+};
+
+// 网格条目右上角的操作菜单，鼠标悬停在条目上时显示
+export function ItemActionsMenu({ onRename, onMove, onCopy, onDelete, onDownload, onExport }: ItemActionsMenuProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // 点击菜单以外的区域时关闭
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [open]);
+
+  const actions: { label: string; onClick: () => void; danger?: boolean }[] = [
+    { label: '下载', onClick: onDownload },
+    { label: '重命名', onClick: onRename },
+    { label: '移动到...', onClick: onMove },
+    { label: '复制到...', onClick: onCopy },
+    ...(onExport ? [{ label: '导出...', onClick: onExport }] : []),
+    { label: '删除', onClick: onDelete, danger: true },
+  ];
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute top-2 right-2 z-10"
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={() => setOpen(value => !value)}
+        className={`w-7 h-7 flex items-center justify-center rounded-full bg-white/80 dark:bg-gray-800/80 text-gray-600 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-700 transition-opacity ${
+          open ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+        }`}
+        title="操作"
+      >
+        ⋯
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-28 py-1 rounded-lg bg-white dark:bg-gray-800 shadow-lg border border-gray-200 dark:border-gray-700 text-sm text-left">
+          {actions.map(action => (
+            <button
+              key={action.label}
+              onClick={() => {
+                setOpen(false);
+                action.onClick();
+              }}
+              className={`block w-full px-3 py-1.5 text-left hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                action.danger ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-200'
+              }`}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import type { FSItem } from '@/lib/fs-items';
+import { isAnimatedImageExt, isVideoExt } from '@/lib/image-formats';
+
+type MediaThumbnailProps = {
+  item: FSItem;
+  size?: number;
+  // 文件修改后的版本号，变化时重新请求缩略图
+  version?: number;
+  // cover 裁剪填满（网格），contain 完整显示（查找重复的复查页面）
+  fit?: 'cover' | 'contain';
+  // 图片缩略图加载失败（视频在封面失败时自行退回到 <video> 首帧）
+  onError?: () => void;
+};
+
+function getThumbnailUrl(path: string, size: number, animated = false, version?: number) {
+  return `/api/fs/thumbnail?path=${encodeURIComponent(path)}&size=${size}${animated ? '&animated=1' : ''}${version ? `&v=${version}` : ''}`;
+}
+
+// 网格中的缩略图：鼠标悬停时 GIF/WebP 播放动态缩略图，视频静音播放预览
+export function MediaThumbnail({ item, size = 128, version, fit = 'cover', onError }: MediaThumbnailProps) {
+  const [hovered, setHovered] = useState<boolean>(false);
+  // 服务器无法生成视频封面（如未安装 ffmpeg）
+  const [posterFailed, setPosterFailed] = useState<boolean>(false);
+  const isVideo = isVideoExt(item.ext);
+  const fileUrl = `/api/fs/file?path=${encodeURIComponent(item.path)}`;
+
+  let content;
+  if (isVideo && (hovered || posterFailed)) {
+    content = (
+      <video
+        // 未悬停时只加载元数据，显示开头的画面
+        src={hovered ? fileUrl : `${fileUrl}#t=0.1`}
+        autoPlay={hovered}
+        muted
+        loop
+        playsInline
+        preload="metadata"
+        className={`w-full h-full ${fit === 'cover' ? 'object-cover' : 'object-contain'}`}
+      />
+    );
+  } else {
+    content = (
+      <img
+        src={getThumbnailUrl(item.path, size, hovered && isAnimatedImageExt(item.ext), version)}
+        alt={item.name}
+        loading="lazy"
+        className={`w-full h-full ${fit === 'cover' ? 'object-cover' : 'object-contain'}`}
+        onError={() => {
+          if (isVideo) {
+            setPosterFailed(true);
+          } else {
+            onError?.();
+          }
+        }}
+      />
+    );
+  }
+
+  return (
+    <div
+      className="relative w-full h-full"
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+    >
+      {content}
+      {isVideo && !hovered && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/20 pointer-events-none">
+          <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+}
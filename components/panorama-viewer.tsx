@@ -0,0 +1,259 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+
+// 投影方式：球面透视 / 小行星（球极投影）
+type Projection = 'sphere' | 'planet';
+
+const SPHERE_FOV = { min: 30, max: 100, initial: 75 };
+const PLANET_ZOOM = { min: 0.5, max: 12, initial: 3 };
+
+// 小行星投影：以天底为中心做球极投影，直接从等距柱状贴图取色
+const PLANET_VERTEX_SHADER = `
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+const PLANET_FRAGMENT_SHADER = `
+uniform sampler2D map;
+uniform float aspect;
+uniform float zoom;
+uniform float rotation;
+varying vec2 vUv;
+const float PI = 3.141592653589793;
+void main() {
+  vec2 p = (vUv * 2.0 - 1.0) * vec2(aspect, 1.0) * zoom;
+  // 与天底的夹角：r = 2 tan(phi / 2)
+  float phi = 2.0 * atan(length(p) * 0.5);
+  float azimuth = atan(p.y, p.x) + rotation;
+  gl_FragColor = texture2D(map, vec2(fract(azimuth / (2.0 * PI) + 0.5), phi / PI));
+  #include <colorspace_fragment>
+}
+`;
+
+// 360° 等距柱状全景查看器：拖动环视，滚轮调整视角，可切换小行星投影
+export function PanoramaViewer({ src }: { src: string }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [projection, setProjection] = useState<Projection>('sphere');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [failed, setFailed] = useState<boolean>(false);
+  // 供事件处理读取最新的投影方式
+  const projectionRef = useRef<Projection>(projection);
+  const requestRenderRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    container.appendChild(renderer.domElement);
+
+    // 球面模式：相机位于球心，贴图画在球的内表面
+    const sphereScene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(SPHERE_FOV.initial, 1, 0.1, 1000);
+    const sphereGeometry = new THREE.SphereGeometry(500, 64, 32);
+    sphereGeometry.scale(-1, 1, 1);
+    const sphereMaterial = new THREE.MeshBasicMaterial();
+    sphereScene.add(new THREE.Mesh(sphereGeometry, sphereMaterial));
+
+    // 小行星模式：全屏四边形 + 着色器
+    const planetScene = new THREE.Scene();
+    const planetCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+    const planetGeometry = new THREE.PlaneGeometry(2, 2);
+    const planetMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        map: { value: null },
+        aspect: { value: 1 },
+        zoom: { value: PLANET_ZOOM.initial },
+        rotation: { value: 0 },
+      },
+      vertexShader: PLANET_VERTEX_SHADER,
+      fragmentShader: PLANET_FRAGMENT_SHADER,
+    });
+    planetScene.add(new THREE.Mesh(planetGeometry, planetMaterial));
+
+    // 视角（度）
+    let lon = 0;
+    let lat = 0;
+    let frame = 0;
+
+    const render = () => {
+      frame = 0;
+      if (projectionRef.current === 'planet') {
+        planetMaterial.uniforms.rotation.value = THREE.MathUtils.degToRad(lon);
+        renderer.render(planetScene, planetCamera);
+      } else {
+        const phi = THREE.MathUtils.degToRad(90 - lat);
+        const theta = THREE.MathUtils.degToRad(lon);
+        camera.lookAt(
+          Math.sin(phi) * Math.cos(theta),
+          Math.cos(phi),
+          Math.sin(phi) * Math.sin(theta)
+        );
+        renderer.render(sphereScene, camera);
+      }
+    };
+    // 只在画面变化时渲染
+    const requestRender = () => {
+      if (!frame) frame = requestAnimationFrame(render);
+    };
+    requestRenderRef.current = requestRender;
+
+    const resizeObserver = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      if (width === 0 || height === 0) return;
+      renderer.setSize(width, height);
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+      planetMaterial.uniforms.aspect.value = width / height;
+      requestRender();
+    });
+    resizeObserver.observe(container);
+
+    let texture: THREE.Texture | null = null;
+    let disposed = false;
+    new THREE.TextureLoader().load(
+      src,
+      loaded => {
+        // 加载完成前已切换图片
+        if (disposed) {
+          loaded.dispose();
+          return;
+        }
+        loaded.colorSpace = THREE.SRGBColorSpace;
+        // 不生成 mipmap，避免经线接缝处出现细线
+        loaded.generateMipmaps = false;
+        loaded.minFilter = THREE.LinearFilter;
+        loaded.wrapS = THREE.RepeatWrapping;
+        texture = loaded;
+        sphereMaterial.map = loaded;
+        sphereMaterial.needsUpdate = true;
+        planetMaterial.uniforms.map.value = loaded;
+        setLoading(false);
+        requestRender();
+      },
+      undefined,
+      () => {
+        if (disposed) return;
+        setLoading(false);
+        setFailed(true);
+      }
+    );
+
+    // 拖动环视
+    let dragging: { x: number; y: number } | null = null;
+    const handlePointerDown = (e: PointerEvent) => {
+      renderer.domElement.setPointerCapture(e.pointerId);
+      dragging = { x: e.clientX, y: e.clientY };
+    };
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!dragging) return;
+      const dx = e.clientX - dragging.x;
+      const dy = e.clientY - dragging.y;
+      dragging = { x: e.clientX, y: e.clientY };
+      if (projectionRef.current === 'planet') {
+        lon -= dx * 0.3;
+      } else {
+        // 视角越小，拖动越精细
+        const speed = camera.fov / container.clientHeight;
+        lon -= dx * speed;
+        lat = THREE.MathUtils.clamp(lat + dy * speed, -85, 85);
+      }
+      requestRender();
+    };
+    const handlePointerUp = () => {
+      dragging = null;
+    };
+
+    // 滚轮缩放：球面模式调整视场角，小行星模式调整投影范围
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = Math.exp(e.deltaY * 0.001);
+      if (projectionRef.current === 'planet') {
+        const uniform = planetMaterial.uniforms.zoom;
+        uniform.value = THREE.MathUtils.clamp(uniform.value * factor, PLANET_ZOOM.min, PLANET_ZOOM.max);
+      } else {
+        camera.fov = THREE.MathUtils.clamp(camera.fov * factor, SPHERE_FOV.min, SPHERE_FOV.max);
+        camera.updateProjectionMatrix();
+      }
+      requestRender();
+    };
+
+    const canvas = renderer.domElement;
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointercancel', handlePointerUp);
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => {
+      disposed = true;
+      if (frame) cancelAnimationFrame(frame);
+      resizeObserver.disconnect();
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerUp);
+      canvas.removeEventListener('wheel', handleWheel);
+      texture?.dispose();
+      sphereGeometry.dispose();
+      sphereMaterial.dispose();
+      planetGeometry.dispose();
+      planetMaterial.dispose();
+      renderer.dispose();
+      canvas.remove();
+    };
+  }, [src]);
+
+  const toggleProjection = useCallback(() => {
+    const next = projectionRef.current === 'sphere' ? 'planet' : 'sphere';
+    projectionRef.current = next;
+    setProjection(next);
+    requestRenderRef.current();
+  }, []);
+
+  // L 键切换小行星投影
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === 'l' || e.key === 'L') {
+        toggleProjection();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [toggleProjection]);
+
+  return (
+    <div
+      className="relative w-full h-full"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div ref={containerRef} className="absolute inset-0 cursor-grab active:cursor-grabbing" style={{ touchAction: 'none' }} />
+
+      {loading && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-white"></div>
+        </div>
+      )}
+      {failed && (
+        <div className="absolute inset-0 flex items-center justify-center text-red-400 pointer-events-none">
+          全景图加载失败
+        </div>
+      )}
+
+      <button
+        onClick={toggleProjection}
+        className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black/60 text-white text-sm hover:bg-black/80 transition-colors"
+        title="切换投影 (L)"
+      >
+        {projection === 'sphere' ? '小行星视图' : '球面视图'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+
+export type SlideshowTransition = 'fade' | 'none';
+
+export type SlideshowSettings = {
+  // 每张图片的显示时间（秒）
+  interval: number;
+  shuffle: boolean;
+  // 播放到最后一张后从头开始，否则停在最后一张
+  loop: boolean;
+  transition: SlideshowTransition;
+};
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  interval: 5,
+  shuffle: false,
+  loop: true,
+  transition: 'fade',
+};
+
+const INTERVAL_OPTIONS = [2, 3, 5, 8, 10, 15, 30];
+
+// 淡入淡出时长（毫秒）
+const FADE_DURATION = 800;
+
+// 生成播放顺序（imageList 的索引），first 排在第一位
+export function buildSlideshowOrder(length: number, shuffle: boolean, first: number): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  if (!shuffle) return order;
+
+  // Fisher-Yates 洗牌
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const firstPosition = order.indexOf(first);
+  if (firstPosition > 0) {
+    [order[0], order[firstPosition]] = [order[firstPosition], order[0]];
+  }
+  return order;
+}
+
+type Layer = {
+  id: number;
+  src: string;
+  loaded: boolean;
+};
+
+type SlideshowStageProps = {
+  src: string;
+  transition: SlideshowTransition;
+  onBackgroundClick?: () => void;
+};
+
+// 幻灯片画面：新图片加载完成后叠在旧图片上淡入，旧图片在过渡结束后移除
+export function SlideshowStage({ src, transition, onBackgroundClick }: SlideshowStageProps) {
+  const [layers, setLayers] = useState<Layer[]>([{ id: 0, src, loaded: false }]);
+
+  // src 变化时添加新图层，只保留上一张作为过渡背景
+  const top = layers[layers.length - 1];
+  if (top.src !== src) {
+    setLayers([top, { id: top.id + 1, src, loaded: false }]);
+  }
+
+  const handleLoad = (id: number) => {
+    setLayers(prev => {
+      const next = prev.map(layer => layer.id === id ? { ...layer, loaded: true } : layer);
+      // 无过渡时直接移除旧图层
+      return transition === 'none' ? next.filter(layer => layer.id >= id) : next;
+    });
+  };
+
+  // 新图层淡入完成后移除旧图层
+  const handleTransitionEnd = (id: number) => {
+    setLayers(prev => prev.filter(layer => layer.id >= id));
+  };
+
+  return (
+    <div
+      className="relative w-full h-full"
+      onClick={(e) => {
+        e.stopPropagation();
+        onBackgroundClick?.();
+      }}
+    >
+      {layers.map((layer, i) => {
+        const isTop = i === layers.length - 1;
+        // 顶层加载完成前保持透明；顶层加载完成后底层同时淡出
+        const visible = isTop ? layer.loaded : !layers[layers.length - 1].loaded;
+        return (
+          <img
+            key={layer.id}
+            src={layer.src}
+            alt=""
+            draggable={false}
+            onLoad={() => handleLoad(layer.id)}
+            onTransitionEnd={isTop ? () => handleTransitionEnd(layer.id) : undefined}
+            className="absolute inset-0 w-full h-full object-contain select-none"
+            style={{
+              opacity: visible ? 1 : 0,
+              transition: transition === 'fade' ? `opacity ${FADE_DURATION}ms ease-in-out` : undefined,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+type SlideshowControlsProps = {
+  settings: SlideshowSettings;
+  onSettingsChange: (settings: SlideshowSettings) => void;
+  playing: boolean;
+  onTogglePlay: () => void;
+  onStop: () => void;
+  // 当前播放位置（从 1 开始）和总数
+  position: number;
+  total: number;
+};
+
+// 幻灯片控制栏
+export function SlideshowControls({
+  settings,
+  onSettingsChange,
+  playing,
+  onTogglePlay,
+  onStop,
+  position,
+  total,
+}: SlideshowControlsProps) {
+  const buttonClass = 'px-3 py-1 rounded-full hover:bg-white/20 transition-colors';
+  const activeClass = 'bg-white/30';
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-4 py-2 rounded-full bg-black/60 text-white text-sm"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button onClick={onTogglePlay} className={buttonClass} title="暂停/继续 (空格)">
+        {playing ? '暂停' : '播放'}
+      </button>
+      <span className="font-mono text-gray-300">{position} / {total}</span>
+      <select
+        value={settings.interval}
+        onChange={(e) => onSettingsChange({ ...settings, interval: Number(e.target.value) })}
+        className="bg-transparent border border-white/30 rounded-full px-2 py-1"
+        title="切换间隔"
+      >
+        {INTERVAL_OPTIONS.map(seconds => (
+          <option key={seconds} value={seconds} className="text-black">{seconds} 秒</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onSettingsChange({ ...settings, shuffle: !settings.shuffle })}
+        className={`${buttonClass} ${settings.shuffle ? activeClass : ''}`}
+        title="随机顺序"
+      >
+        随机
+      </button>
+      <button
+        onClick={() => onSettingsChange({ ...settings, loop: !settings.loop })}
+        className={`${buttonClass} ${settings.loop ? activeClass : ''}`}
+        title="播放到最后一张后从头开始"
+      >
+        循环
+      </button>
+      <button
+        onClick={() => onSettingsChange({
+          ...settings,
+          transition: settings.transition === 'fade' ? 'none' : 'fade',
+        })}
+        className={`${buttonClass} ${settings.transition === 'fade' ? activeClass : ''}`}
+        title="淡入淡出过渡"
+      >
+        淡入淡出
+      </button>
+      <button onClick={onStop} className={buttonClass} title="退出幻灯片">
+        退出
+      </button>
+    </div>
+  );
+}
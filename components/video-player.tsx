@@ -0,0 +1,30 @@
+'use client';
+
+type VideoPlayerProps = {
+  src: string;
+  poster?: string;
+  onBackgroundClick?: () => void;
+};
+
+// 全屏查看器中的视频播放器，视频通过 /api/fs/file 的 Range 请求边下边播
+export function VideoPlayer({ src, poster, onBackgroundClick }: VideoPlayerProps) {
+  return (
+    <div
+      className="relative w-full h-full flex items-center justify-center"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.target === e.currentTarget) onBackgroundClick?.();
+      }}
+    >
+      <video
+        src={src}
+        poster={poster}
+        controls
+        autoPlay
+        playsInline
+        preload="metadata"
+        className="max-w-full max-h-full"
+      />
+    </div>
+  );
+}
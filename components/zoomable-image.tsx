@@ -0,0 +1,365 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+// 缩放模式：适应窗口 / 填满窗口 / 手动缩放。
+// 手动缩放记录相对值：zoom 为相对于完整显示在窗口中的倍数，cx/cy 为窗口中心对应的图片位置（0-1），
+// 尺寸不同的图片（如原图和缩小的导出版本）按同一视角显示时能够对齐
+export type ZoomView =
+  | { mode: 'fit' | 'fill' }
+  | { mode: 'custom'; zoom: number; cx: number; cy: number };
+
+type Size = {
+  width: number;
+  height: number;
+};
+
+type Transform = {
+  scale: number;
+  x: number;
+  y: number;
+};
+
+const MIN_SCALE = 0.02;
+const MAX_SCALE = 32;
+// 键盘缩放每次的倍数
+const ZOOM_STEP = 1.25;
+// 超过这个距离的指针移动视为拖动，而不是点击
+const DRAG_THRESHOLD = 4;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+// 完整显示在窗口中的缩放比例
+function containScale(container: Size, natural: Size) {
+  return Math.min(container.width / natural.width, container.height / natural.height);
+}
+
+// 根据缩放模式计算实际的缩放比例和位置
+function computeTransform(view: ZoomView, container: Size, natural: Size): Transform {
+  if (view.mode === 'custom') {
+    const scale = containScale(container, natural) * view.zoom;
+    return {
+      scale,
+      x: container.width / 2 - view.cx * natural.width * scale,
+      y: container.height / 2 - view.cy * natural.height * scale,
+    };
+  }
+  const scale = view.mode === 'fit'
+    // 适应窗口时小图不放大
+    ? Math.min(containScale(container, natural), 1)
+    : Math.max(container.width / natural.width, container.height / natural.height);
+  return {
+    scale,
+    x: (container.width - natural.width * scale) / 2,
+    y: (container.height - natural.height * scale) / 2,
+  };
+}
+
+// 实际的缩放比例和位置转换回手动缩放的视角
+function toCustomView(t: Transform, container: Size, natural: Size): ZoomView {
+  return {
+    mode: 'custom',
+    zoom: t.scale / containScale(container, natural),
+    cx: (container.width / 2 - t.x) / (natural.width * t.scale),
+    cy: (container.height / 2 - t.y) / (natural.height * t.scale),
+  };
+}
+
+// 限制平移范围：图片小于窗口的方向居中，大于窗口时边缘不能移进窗口内
+function clampTransform(t: Transform, container: Size, natural: Size): Transform {
+  const clampAxis = (pos: number, imageSize: number, containerSize: number) =>
+    imageSize <= containerSize
+      ? (containerSize - imageSize) / 2
+      : clamp(pos, containerSize - imageSize, 0);
+  return {
+    scale: t.scale,
+    x: clampAxis(t.x, natural.width * t.scale, container.width),
+    y: clampAxis(t.y, natural.height * t.scale, container.height),
+  };
+}
+
+type ImageLayerProps = {
+  src: string;
+  alt?: string;
+  natural: Size | null;
+  transform: Transform | null;
+  onLoad: (natural: Size) => void;
+  onDoubleClick: (e: React.MouseEvent<HTMLImageElement>) => void;
+};
+
+// 按缩放比例和位置绘制的一层图片，尺寸未知（加载完成前）时隐藏
+function ImageLayer({ src, alt = '', natural, transform, onLoad, onDoubleClick }: ImageLayerProps) {
+  return (
+    <img
+      src={src}
+      alt={alt}
+      draggable={false}
+      onLoad={(e) => onLoad({
+        width: e.currentTarget.naturalWidth,
+        height: e.currentTarget.naturalHeight,
+      })}
+      onDoubleClick={onDoubleClick}
+      className="absolute top-0 left-0 max-w-none pointer-events-auto"
+      style={{
+        width: natural?.width,
+        height: natural?.height,
+        transformOrigin: '0 0',
+        transform: transform
+          ? `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`
+          : undefined,
+        visibility: transform ? 'visible' : 'hidden',
+        // 放大超过 2 倍时显示清晰的像素边缘，便于检查细节
+        imageRendering: transform && transform.scale >= 2 ? 'pixelated' : 'auto',
+      }}
+    />
+  );
+}
+
+type ZoomableImageProps = {
+  src: string;
+  alt?: string;
+  // 叠在上面的第二张图片，只显示在 overlaySplit（百分比）右侧，用于滑动对比
+  overlaySrc?: string;
+  overlaySplit?: number;
+  // 由父组件管理视角时传入，多张图片共用同一视角即可同步缩放和平移
+  view?: ZoomView;
+  onViewChange?: (update: (view: ZoomView) => ZoomView) => void;
+  // 是否响应 F/G/Z/+/- 快捷键；同时显示多张图片时由父组件统一处理
+  keyboardShortcuts?: boolean;
+  // 点击图片以外的区域
+  onBackgroundClick?: () => void;
+};
+
+// 支持滚轮缩放、拖动平移、双指缩放和 1:1 查看的图片
+// 切换图片时由父组件更换 key 重新挂载，缩放状态随之重置
+export function ZoomableImage({
+  src,
+  alt,
+  overlaySrc,
+  overlaySplit = 50,
+  view: controlledView,
+  onViewChange,
+  keyboardShortcuts = true,
+  onBackgroundClick,
+}: ZoomableImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [container, setContainer] = useState<Size | null>(null);
+  const [natural, setNatural] = useState<Size | null>(null);
+  const [overlayNatural, setOverlayNatural] = useState<{ src: string; size: Size } | null>(null);
+  const [ownView, setOwnView] = useState<ZoomView>({ mode: 'fit' });
+  const view = controlledView ?? ownView;
+  const setView = onViewChange ?? setOwnView;
+
+  // 当前指针位置（用于拖动和双指缩放）
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchDistanceRef = useRef<number | null>(null);
+  const dragDistanceRef = useRef(0);
+
+  const ready = container !== null && natural !== null;
+  const transform = ready ? computeTransform(view, container, natural) : null;
+  const overlayTransform = container && overlayNatural && overlayNatural.src === overlaySrc
+    ? computeTransform(view, container, overlayNatural.size)
+    : null;
+
+  // 监听窗口尺寸变化
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setContainer({ width, height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // 以 (px, py) 为中心把缩放比例变为 scale
+  const zoomTo = useCallback((getScale: (current: number) => number, px?: number, py?: number) => {
+    if (!container || !natural) return;
+    setView(prev => {
+      const current = computeTransform(prev, container, natural);
+      const scale = clamp(getScale(current.scale), MIN_SCALE, MAX_SCALE);
+      const cx = px ?? container.width / 2;
+      const cy = py ?? container.height / 2;
+      const ratio = scale / current.scale;
+      const next = clampTransform({
+        scale,
+        x: cx - (cx - current.x) * ratio,
+        y: cy - (cy - current.y) * ratio,
+      }, container, natural);
+      return toCustomView(next, container, natural);
+    });
+  }, [container, natural, setView]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    if (!container || !natural) return;
+    setView(prev => {
+      const current = computeTransform(prev, container, natural);
+      const next = clampTransform({ ...current, x: current.x + dx, y: current.y + dy }, container, natural);
+      return toCustomView(next, container, natural);
+    });
+  }, [container, natural, setView]);
+
+  // 滚轮缩放（需要非 passive 监听才能阻止页面缩放）
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * (e.deltaMode === 1 ? 0.05 : 0.0015));
+      zoomTo(scale => scale * factor, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [zoomTo]);
+
+  // 键盘快捷键：F 适应，G 填满，Z 原始大小，+/- 缩放
+  useEffect(() => {
+    if (!keyboardShortcuts) return;
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case 'f':
+        case 'F':
+          setView(() => ({ mode: 'fit' }));
+          break;
+        case 'g':
+        case 'G':
+          setView(() => ({ mode: 'fill' }));
+          break;
+        case 'z':
+        case 'Z':
+          zoomTo(() => 1);
+          break;
+        case '+':
+        case '=':
+          zoomTo(scale => scale * ZOOM_STEP);
+          break;
+        case '-':
+        case '_':
+          zoomTo(scale => scale / ZOOM_STEP);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keyboardShortcuts, zoomTo, setView]);
+
+  const getLocalPoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, getLocalPoint(e));
+    if (pointersRef.current.size === 1) {
+      dragDistanceRef.current = 0;
+    }
+    pinchDistanceRef.current = null;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    const point = getLocalPoint(e);
+    pointers.set(e.pointerId, point);
+
+    if (pointers.size === 1) {
+      const dx = point.x - previous.x;
+      const dy = point.y - previous.y;
+      dragDistanceRef.current += Math.abs(dx) + Math.abs(dy);
+      panBy(dx, dy);
+    } else if (pointers.size === 2) {
+      // 双指缩放：以两指中点为中心
+      const [a, b] = [...pointers.values()];
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      dragDistanceRef.current += DRAG_THRESHOLD;
+      if (pinchDistanceRef.current) {
+        const factor = distance / pinchDistanceRef.current;
+        zoomTo(scale => scale * factor, (a.x + b.x) / 2, (a.y + b.y) / 2);
+      }
+      pinchDistanceRef.current = distance;
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    pinchDistanceRef.current = null;
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    // 拖动结束时不当作点击
+    if (dragDistanceRef.current >= DRAG_THRESHOLD) return;
+    if (e.target === e.currentTarget) {
+      onBackgroundClick?.();
+    }
+  };
+
+  // 双击图片在适应窗口和 1:1 之间切换
+  const handleDoubleClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!transform) return;
+    if (view.mode === 'fit' || transform.scale !== 1) {
+      const rect = containerRef.current!.getBoundingClientRect();
+      zoomTo(() => 1, e.clientX - rect.left, e.clientY - rect.top);
+    } else {
+      setView(() => ({ mode: 'fit' }));
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-full overflow-hidden select-none"
+      style={{
+        touchAction: 'none',
+        cursor: transform && natural && container
+          && (natural.width * transform.scale > container.width || natural.height * transform.scale > container.height)
+          ? 'grab'
+          : 'default',
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={handleClick}
+    >
+      <ImageLayer
+        src={src}
+        alt={alt}
+        natural={natural}
+        transform={transform}
+        onLoad={setNatural}
+        onDoubleClick={handleDoubleClick}
+      />
+      {/* 滑动对比的第二张图片：外层按窗口裁剪，只显示分隔线右侧 */}
+      {overlaySrc && (
+        <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 0 0 ${overlaySplit}%)` }}>
+          <ImageLayer
+            src={overlaySrc}
+            natural={overlayNatural?.size ?? null}
+            transform={overlayTransform}
+            onLoad={size => setOverlayNatural({ src: overlaySrc, size })}
+            onDoubleClick={handleDoubleClick}
+          />
+        </div>
+      )}
+
+      {/* 缩放比例 */}
+      {transform && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black/60 text-white text-sm font-mono pointer-events-none">
+          {Math.round(transform.scale * 100)}%
+          {view.mode !== 'custom' && (view.mode === 'fit' ? ' · 适应' : ' · 填满')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FSItem } from '@/lib/fs-items';
+import type { GridLayout, GridRect } from '@/hooks/use-virtual-grid';
+import { isEditableTarget } from '@/lib/utils';
+
+type GridSelectionOptions = {
+  items: FSItem[];
+  // 变化时（切换目录、开始或结束搜索）清除选择
+  resetKey: string;
+  // 网格容器，每个条目元素带有 data-path 属性
+  grid: HTMLElement | null;
+  // 网格布局（虚拟网格中没有渲染的条目也能导航和框选）
+  layout: GridLayout;
+  // 为 false 时不响应键盘（查看器、对话框打开时）
+  enabled: boolean;
+  onOpen: (item: FSItem) => void;
+  onGoUp: () => void;
+  onDelete: (items: FSItem[]) => void;
+};
+
+// 输入名称跳转时，两次按键间隔超过这个时间重新开始（毫秒）
+const TYPE_AHEAD_TIMEOUT = 1000;
+// 指针移动超过这个距离才开始框选，否则视为点击空白处
+const RUBBER_BAND_THRESHOLD = 4;
+
+// 网格的焦点、选择和键盘导航：
+// 方向键/Home/End/PageUp/PageDown 移动焦点（Shift 扩展选择，Ctrl/⌘ 只移动焦点），空格切换选中，
+// Enter 打开，Backspace 返回上级，Delete 删除选中的条目，Ctrl/⌘+A 全选，Esc 取消选择，直接输入名称跳转。
+// 鼠标：单击选中，Ctrl/⌘+单击切换，Shift+单击选择范围，在空白处拖动框选。
+export function useGridSelection({ items, resetKey, grid, layout, enabled, onOpen, onGoUp, onDelete }: GridSelectionOptions) {
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [focusedPath, setFocusedPath] = useState<string | null>(null);
+  const [rubberBand, setRubberBand] = useState<GridRect | null>(null);
+  // Shift 选择范围的起点
+  const [anchorPath, setAnchorPath] = useState<string | null>(null);
+  const [selectionKey, setSelectionKey] = useState<string>(resetKey);
+  const typeAheadRef = useRef<{ text: string; time: number }>({ text: '', time: 0 });
+
+  const clearSelection = useCallback(() => {
+    setSelectedPaths(new Set());
+    setFocusedPath(null);
+    setAnchorPath(null);
+  }, []);
+
+  if (selectionKey !== resetKey) {
+    setSelectionKey(resetKey);
+    clearSelection();
+  }
+
+  // 选中的条目（按网格中的顺序）；已删除或移走的条目自然排除
+  const selectedItems = items.filter(item => selectedPaths.has(item.path));
+
+  // 选中锚点到 index 之间的条目；additive 时保留原来的选择
+  const selectRange = (anchor: string, index: number, additive: boolean) => {
+    const anchorIndex = Math.max(0, items.findIndex(item => item.path === anchor));
+    const [start, end] = anchorIndex <= index ? [anchorIndex, index] : [index, anchorIndex];
+    const range = items.slice(start, end + 1).map(item => item.path);
+    setSelectedPaths(prev => new Set(additive ? [...prev, ...range] : range));
+  };
+
+  const handleItemClick = (e: React.MouseEvent, item: FSItem) => {
+    const index = items.findIndex(entry => entry.path === item.path);
+    if (e.shiftKey && anchorPath) {
+      selectRange(anchorPath, index, e.ctrlKey || e.metaKey);
+    } else if (e.ctrlKey || e.metaKey) {
+      setSelectedPaths(prev => {
+        const next = new Set(prev);
+        if (!next.delete(item.path)) next.add(item.path);
+        return next;
+      });
+      setAnchorPath(item.path);
+    } else {
+      setSelectedPaths(new Set([item.path]));
+      setAnchorPath(item.path);
+    }
+    setFocusedPath(item.path);
+  };
+
+  // 在网格空白处按下指针开始框选；按住 Ctrl/⌘ 时加到原来的选择中
+  const handleGridPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    if (!grid || e.button !== 0 || (e.target as HTMLElement).closest('[data-path]')) return;
+    e.preventDefault();
+    const base = e.ctrlKey || e.metaKey ? new Set(selectedPaths) : new Set<string>();
+    const gridRect = grid.getBoundingClientRect();
+    // 使用页面坐标，框选期间滚动页面也能正确计算
+    const origin = { x: gridRect.left + window.scrollX, y: gridRect.top + window.scrollY };
+    const start = { x: e.clientX + window.scrollX, y: e.clientY + window.scrollY };
+    let dragging = false;
+
+    const handleMove = (event: PointerEvent) => {
+      const x = event.clientX + window.scrollX;
+      const y = event.clientY + window.scrollY;
+      if (!dragging && Math.hypot(x - start.x, y - start.y) < RUBBER_BAND_THRESHOLD) return;
+      dragging = true;
+      const left = Math.min(start.x, x);
+      const top = Math.min(start.y, y);
+      const right = Math.max(start.x, x);
+      const bottom = Math.max(start.y, y);
+      const rect = { left: left - origin.x, top: top - origin.y, width: right - left, height: bottom - top };
+      setRubberBand(rect);
+
+      const hits = new Set(base);
+      for (const index of layout.getIndicesInRect(rect)) {
+        hits.add(items[index].path);
+      }
+      setSelectedPaths(hits);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+      setRubberBand(null);
+      // 单击空白处取消选择
+      if (!dragging && !base.size) clearSelection();
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (items.length === 0 || isEditableTarget(e.target)) return;
+      const modifier = e.ctrlKey || e.metaKey;
+      const focusedIndex = items.findIndex(item => item.path === focusedPath);
+      const focusedItem = focusedIndex === -1 ? null : items[focusedIndex];
+
+      // 移动焦点到 index 并滚动到可见位置：extend（默认按住 Shift）时扩展选择，Ctrl/⌘ 只移动焦点，否则只选中该条目
+      const moveTo = (index: number, extend: boolean = e.shiftKey) => {
+        const targetIndex = Math.min(Math.max(index, 0), items.length - 1);
+        const target = items[targetIndex];
+        if (extend) {
+          const anchor = anchorPath ?? focusedItem?.path ?? target.path;
+          setAnchorPath(anchor);
+          selectRange(anchor, targetIndex, modifier);
+        } else if (!modifier) {
+          setSelectedPaths(new Set([target.path]));
+          setAnchorPath(target.path);
+        }
+        setFocusedPath(target.path);
+        layout.scrollToIndex(targetIndex);
+      };
+
+      // 还没有焦点时方向键从第一个条目开始
+      const current = Math.max(focusedIndex, 0);
+      switch (e.key) {
+        case 'ArrowRight':
+          moveTo(focusedIndex + 1);
+          break;
+        case 'ArrowLeft':
+          moveTo(focusedIndex === -1 ? 0 : current - 1);
+          break;
+        case 'ArrowDown':
+          moveTo(focusedIndex === -1 ? 0 : current + layout.columns);
+          break;
+        case 'ArrowUp':
+          moveTo(focusedIndex === -1 ? 0 : current - layout.columns);
+          break;
+        case 'Home':
+          moveTo(0);
+          break;
+        case 'End':
+          moveTo(items.length - 1);
+          break;
+        case 'PageDown':
+          moveTo(current + layout.columns * layout.rowsPerPage);
+          break;
+        case 'PageUp':
+          moveTo(current - layout.columns * layout.rowsPerPage);
+          break;
+        case ' ':
+          if (!focusedItem) return;
+          setSelectedPaths(prev => {
+            const next = new Set(prev);
+            if (!next.delete(focusedItem.path)) next.add(focusedItem.path);
+            return next;
+          });
+          setAnchorPath(focusedItem.path);
+          break;
+        case 'Enter':
+          if (!focusedItem) return;
+          onOpen(focusedItem);
+          break;
+        case 'Backspace':
+          onGoUp();
+          break;
+        case 'Delete': {
+          const targets = selectedPaths.size > 0 ? items.filter(item => selectedPaths.has(item.path)) : focusedItem ? [focusedItem] : [];
+          if (targets.length === 0) return;
+          onDelete(targets);
+          break;
+        }
+        case 'Escape':
+          clearSelection();
+          break;
+        default: {
+          if ((e.key === 'a' || e.key === 'A') && modifier && !e.altKey) {
+            setSelectedPaths(new Set(items.map(item => item.path)));
+            break;
+          }
+          // 输入名称跳转：连续输入时匹配整个前缀，重复按同一个字母时在同名开头的条目间循环
+          if (e.key.length !== 1 || modifier || e.altKey) return;
+          const now = Date.now();
+          const previous = typeAheadRef.current;
+          const text = now - previous.time > TYPE_AHEAD_TIMEOUT ? e.key.toLowerCase() : previous.text + e.key.toLowerCase();
+          typeAheadRef.current = { text, time: now };
+          const cycling = [...text].every(char => char === text[0]);
+          const prefix = cycling ? text[0] : text;
+          const start = cycling ? focusedIndex + 1 : Math.max(focusedIndex, 0);
+          for (let i = 0; i < items.length; i++) {
+            const index = (start + i) % items.length;
+            if (items[index].name.toLowerCase().startsWith(prefix)) {
+              moveTo(index, false);
+              break;
+            }
+          }
+          break;
+        }
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return {
+    selectedPaths,
+    selectedItems,
+    focusedPath,
+    rubberBand,
+    handleItemClick,
+    handleGridPointerDown,
+    clearSelection,
+  };
+}
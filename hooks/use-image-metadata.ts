@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ImageMetadata } from '@/lib/image-metadata';
+
+type LoadedMetadata = {
+  path: string;
+  metadata: ImageMetadata | null;
+  error: string | null;
+};
+
+// 最近请求过的元数据，查看器和信息面板共用，避免重复请求
+const MAX_CACHED = 50;
+const metadataCache = new Map<string, Promise<ImageMetadata>>();
+
+function loadMetadata(path: string): Promise<ImageMetadata> {
+  let pending = metadataCache.get(path);
+  if (!pending) {
+    pending = fetch(`/api/fs/meta?path=${encodeURIComponent(path)}`).then(async response => {
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      return data as ImageMetadata;
+    });
+    // 失败的请求不缓存
+    pending.catch(() => metadataCache.delete(path));
+    metadataCache.set(path, pending);
+    if (metadataCache.size > MAX_CACHED) {
+      metadataCache.delete(metadataCache.keys().next().value!);
+    }
+  }
+  return pending;
+}
+
+// 清除缓存的元数据（文件被修改后调用）
+export function invalidateImageMetadata(path?: string) {
+  if (path) {
+    metadataCache.delete(path);
+  } else {
+    metadataCache.clear();
+  }
+}
+
+// 读取图片元数据；path 为 null 时不请求
+export function useImageMetadata(path: string | null) {
+  const [loaded, setLoaded] = useState<LoadedMetadata | null>(null);
+
+  useEffect(() => {
+    if (!path) return;
+    let cancelled = false;
+
+    loadMetadata(path)
+      .then(metadata => {
+        if (!cancelled) setLoaded({ path, metadata, error: null });
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setLoaded({ path, metadata: null, error: err instanceof Error ? err.message : 'Failed to load metadata' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  // 切换图片后，旧数据不再返回
+  const current = loaded && loaded.path === path ? loaded : null;
+  return {
+    loading: path !== null && current === null,
+    metadata: current?.metadata ?? null,
+    error: current?.error ?? null,
+  };
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useEffectEvent, useRef } from 'react';
+import type { FSItem } from '@/lib/fs-items';
+import { isVideoExt } from '@/lib/image-formats';
+import { ImagePrefetcher } from '@/lib/image-prefetcher';
+
+// 沿浏览方向预加载的张数，以及反方向的张数
+const PREFETCH_AHEAD = 8;
+const PREFETCH_BEHIND = 3;
+// 最多保留的已解码图片数
+const PREFETCH_CACHE_SIZE = 24;
+// 同时加载的图片数
+const PREFETCH_CONCURRENCY = 3;
+
+// 查看器的双向预加载：以当前图片为中心，沿浏览方向多加载几张，反方向少加载几张（到两端时循环），视频不预加载。
+// 跳转到其他位置、切换列表或关闭查看器时取消不再需要的请求。
+export function useImagePrefetch(
+  items: FSItem[],
+  currentIndex: number,
+  enabled: boolean,
+  getUrl: (item: FSItem) => string
+) {
+  const prefetcherRef = useRef<ImagePrefetcher | null>(null);
+  const lastIndexRef = useRef<number>(currentIndex);
+  const directionRef = useRef<1 | -1>(1);
+  const toUrl = useEffectEvent(getUrl);
+
+  useEffect(() => {
+    prefetcherRef.current ??= new ImagePrefetcher(PREFETCH_CACHE_SIZE, PREFETCH_CONCURRENCY);
+    const prefetcher = prefetcherRef.current;
+    if (!enabled || items.length === 0) {
+      prefetcher.update([]);
+      return;
+    }
+
+    // 根据上一次的位置判断浏览方向（从最后一张循环到第一张仍是向后）
+    const step = currentIndex - lastIndexRef.current;
+    if (step !== 0) {
+      directionRef.current = (step > 0) !== (Math.abs(step) > items.length / 2) ? 1 : -1;
+    }
+    lastIndexRef.current = currentIndex;
+
+    const urls = new Set<string>();
+    const add = (offset: number) => {
+      const item = items[((currentIndex + offset) % items.length + items.length) % items.length];
+      if (!isVideoExt(item.ext)) urls.add(toUrl(item));
+    };
+    add(0);
+    for (let distance = 1; distance <= PREFETCH_AHEAD; distance++) {
+      add(distance * directionRef.current);
+      if (distance <= PREFETCH_BEHIND) add(-distance * directionRef.current);
+    }
+    prefetcher.update([...urls]);
+  }, [items, currentIndex, enabled]);
+
+  // 卸载时取消全部请求
+  useEffect(() => () => prefetcherRef.current?.clear(), []);
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+// 网格中的矩形区域（相对于网格容器左上角）
+export type GridRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+// 键盘导航和框选需要的网格布局信息（包括没有渲染的条目）
+export type GridLayout = {
+  columns: number;
+  // 一屏能显示的行数
+  rowsPerPage: number;
+  // 滚动页面使第 index 个条目可见
+  scrollToIndex: (index: number) => void;
+  // 与区域相交的条目索引
+  getIndicesInRect: (rect: GridRect) => number[];
+};
+
+type GridMetrics = {
+  columns: number;
+  columnWidth: number;
+  columnGap: number;
+  rowHeight: number;
+  rowGap: number;
+};
+
+// 尚未测量网格尺寸时渲染的条目数
+const INITIAL_ITEM_COUNT = 60;
+// 可见区域上下额外渲染的行数，快速滚动时不出现空白
+const OVERSCAN_ROWS = 3;
+// 滚动到条目时与窗口边缘保留的距离
+const SCROLL_MARGIN = 16;
+
+// 从网格的计算样式读取列数、列宽和行高（行高由 grid-auto-rows 固定）
+function measureGrid(grid: HTMLElement): GridMetrics | null {
+  const style = getComputedStyle(grid);
+  const columns = style.gridTemplateColumns.split(' ').filter(Boolean).length;
+  const rowHeight = parseFloat(style.gridAutoRows);
+  if (!columns || !rowHeight) return null;
+  const columnGap = parseFloat(style.columnGap) || 0;
+  return {
+    columns,
+    columnWidth: (grid.clientWidth - columnGap * (columns - 1)) / columns,
+    columnGap,
+    rowHeight,
+    rowGap: parseFloat(style.rowGap) || 0,
+  };
+}
+
+// 窗口滚动的虚拟网格：只渲染可见区域附近的行，其余的行用网格的上下内边距占位。
+// 网格需要固定行高（grid-auto-rows），列数仍由响应式样式决定，窗口大小变化时重新测量。
+export function useVirtualGrid(count: number) {
+  const [grid, setGrid] = useState<HTMLDivElement | null>(null);
+  const [metrics, setMetrics] = useState<GridMetrics | null>(null);
+  // 渲染的行范围 [startRow, endRow)
+  const [rowRange, setRowRange] = useState<{ startRow: number; endRow: number } | null>(null);
+
+  useEffect(() => {
+    if (!grid) return;
+    let current: GridMetrics | null = null;
+
+    const updateRange = () => {
+      if (!current) return;
+      const pitch = current.rowHeight + current.rowGap;
+      const top = -grid.getBoundingClientRect().top;
+      const startRow = Math.max(0, Math.floor(top / pitch) - OVERSCAN_ROWS);
+      const endRow = Math.max(startRow, Math.ceil((top + window.innerHeight) / pitch) + OVERSCAN_ROWS);
+      setRowRange(prev => prev && prev.startRow === startRow && prev.endRow === endRow ? prev : { startRow, endRow });
+    };
+
+    // 首次监听时也会触发一次，完成初始测量
+    const observer = new ResizeObserver(() => {
+      const next = measureGrid(grid);
+      if (next && (!current || Object.entries(next).some(([key, value]) => current![key as keyof GridMetrics] !== value))) {
+        current = next;
+        setMetrics(next);
+      }
+      updateRange();
+    });
+    observer.observe(grid);
+    window.addEventListener('scroll', updateRange, { passive: true });
+    window.addEventListener('resize', updateRange);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('scroll', updateRange);
+      window.removeEventListener('resize', updateRange);
+    };
+    // 条目数变化时网格上方的内容也可能变化，重新计算可见范围
+  }, [grid, count]);
+
+  const columns = metrics?.columns ?? 1;
+  const pitch = metrics ? metrics.rowHeight + metrics.rowGap : 0;
+  const totalRows = Math.ceil(count / columns);
+  let start = 0;
+  let end = Math.min(count, INITIAL_ITEM_COUNT);
+  let paddingTop = 0;
+  let paddingBottom = 0;
+  if (metrics && rowRange) {
+    const startRow = Math.min(rowRange.startRow, totalRows);
+    const endRow = Math.min(rowRange.endRow, totalRows);
+    start = startRow * columns;
+    end = Math.min(count, endRow * columns);
+    paddingTop = startRow * pitch;
+    paddingBottom = (totalRows - endRow) * pitch;
+  }
+
+  const scrollToIndex = useCallback((index: number) => {
+    if (!grid || !metrics) return;
+    const rowTop = grid.getBoundingClientRect().top + Math.floor(index / metrics.columns) * (metrics.rowHeight + metrics.rowGap);
+    if (rowTop < SCROLL_MARGIN) {
+      window.scrollBy({ top: rowTop - SCROLL_MARGIN });
+    } else if (rowTop + metrics.rowHeight > window.innerHeight - SCROLL_MARGIN) {
+      window.scrollBy({ top: rowTop + metrics.rowHeight - window.innerHeight + SCROLL_MARGIN });
+    }
+  }, [grid, metrics]);
+
+  const getIndicesInRect = useCallback((rect: GridRect) => {
+    if (!metrics) return [];
+    const rowPitch = metrics.rowHeight + metrics.rowGap;
+    const columnPitch = metrics.columnWidth + metrics.columnGap;
+    const right = rect.left + rect.width;
+    const bottom = rect.top + rect.height;
+    const indices: number[] = [];
+    const firstRow = Math.max(0, Math.floor(rect.top / rowPitch));
+    const lastRow = Math.floor(bottom / rowPitch);
+    const firstColumn = Math.max(0, Math.floor(rect.left / columnPitch));
+    const lastColumn = Math.min(metrics.columns - 1, Math.floor(right / columnPitch));
+    for (let row = firstRow; row <= lastRow; row++) {
+      const cellTop = row * rowPitch;
+      if (cellTop >= bottom || cellTop + metrics.rowHeight <= rect.top) continue;
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const cellLeft = column * columnPitch;
+        const index = row * metrics.columns + column;
+        if (index >= count) break;
+        if (cellLeft < right && cellLeft + metrics.columnWidth > rect.left) {
+          indices.push(index);
+        }
+      }
+    }
+    return indices;
+  }, [metrics, count]);
+
+  const layout: GridLayout = {
+    columns,
+    rowsPerPage: pitch ? Math.max(1, Math.floor(window.innerHeight / pitch)) : 1,
+    scrollToIndex,
+    getIndicesInRect,
+  };
+
+  return {
+    // 网格容器的 ref 回调
+    gridRef: setGrid,
+    grid,
+    // 渲染的条目范围 [start, end)
+    start,
+    end,
+    paddingTop,
+    paddingBottom,
+    layout,
+  };
+}
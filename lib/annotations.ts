@@ -0,0 +1,258 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { getConfig } from './config';
+import { COLOR_LABELS, type Annotation, type ColorLabel } from './fs-items';
+
+// 评分、颜色标签、收藏和标签的本地数据库（数据目录下的 JSON 文件）
+// 以绝对路径为键，同时记录文件大小和内容指纹（开头和结尾各 64KB 的 SHA-1）。
+// 应用内的重命名、移动和删除直接更新记录；在应用外被重命名的文件，
+// 按路径查不到记录时，用大小相同、原路径已不存在的记录比较指纹后重新关联。
+
+export type AnnotationPatch = {
+  rating?: number;
+  label?: ColorLabel | null;
+  favorite?: boolean;
+  // 替换全部标签
+  tags?: string[];
+  addTags?: string[];
+  removeTags?: string[];
+};
+
+// 列表筛选条件，未设置的条件不参与筛选
+export type AnnotationFilter = {
+  minRating: number | null;
+  label: ColorLabel | null;
+  favorite: boolean;
+  tag: string | null;
+};
+
+type AnnotationRecord = Annotation & {
+  size: number;
+  fingerprint: string;
+};
+
+const STORE_FILE = 'annotations.json';
+// 修改后延迟写入磁盘，合并频繁的更新
+const STORE_SAVE_DELAY = 1000;
+// 指纹读取的首尾字节数
+const FINGERPRINT_CHUNK = 64 * 1024;
+export const MAX_TAG_LENGTH = 64;
+
+export const EMPTY_ANNOTATION: Annotation = { rating: 0, label: null, favorite: false, tags: [] };
+
+function isEmptyAnnotation(annotation: Annotation): boolean {
+  return annotation.rating === 0 && !annotation.label && !annotation.favorite && annotation.tags.length === 0;
+}
+
+// 文件内容指纹：大小 + 开头和结尾各 64KB 的 SHA-1，大文件也只读取很少的数据
+async function computeFingerprint(absolutePath: string, size: number): Promise<string> {
+  const handle = await fs.open(absolutePath, 'r');
+  try {
+    const digest = crypto.createHash('sha1');
+    const head = Buffer.alloc(Math.min(size, FINGERPRINT_CHUNK));
+    await handle.read(head, 0, head.length, 0);
+    digest.update(head);
+    if (size > FINGERPRINT_CHUNK) {
+      const tail = Buffer.alloc(Math.min(size - FINGERPRINT_CHUNK, FINGERPRINT_CHUNK));
+      await handle.read(tail, 0, tail.length, size - tail.length);
+      digest.update(tail);
+    }
+    return `${size}:${digest.digest('hex')}`;
+  } finally {
+    await handle.close();
+  }
+}
+
+function isInside(absolutePath: string, directory: string): boolean {
+  return absolutePath.startsWith(directory.endsWith(path.sep) ? directory : directory + path.sep);
+}
+
+// 从查询参数读取筛选条件：rating（最低星级）、label、favorite、tag；都未设置时返回 null
+export function parseAnnotationFilter(searchParams: URLSearchParams): AnnotationFilter | null {
+  const rating = parseInt(searchParams.get('rating') || '', 10);
+  const label = searchParams.get('label');
+  const filter: AnnotationFilter = {
+    minRating: rating >= 1 && rating <= 5 ? rating : null,
+    label: COLOR_LABELS.includes(label as ColorLabel) ? label as ColorLabel : null,
+    favorite: searchParams.get('favorite') === 'true' || searchParams.get('favorite') === '1',
+    tag: searchParams.get('tag')?.trim().toLowerCase() || null,
+  };
+  if (filter.minRating === null && !filter.label && !filter.favorite && !filter.tag) {
+    return null;
+  }
+  return filter;
+}
+
+export function matchesAnnotationFilter(annotation: Annotation | undefined, filter: AnnotationFilter): boolean {
+  const value = annotation ?? EMPTY_ANNOTATION;
+  return (filter.minRating === null || value.rating >= filter.minRating)
+    && (!filter.label || value.label === filter.label)
+    && (!filter.favorite || value.favorite)
+    && (!filter.tag || value.tags.some(tag => tag.toLowerCase() === filter.tag));
+}
+
+class AnnotationStore {
+  private records = new Map<string, AnnotationRecord>();
+  private loaded: Promise<void> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly file: string) {}
+
+  // 按路径读取多个文件的整理信息；传入 size 时，对没有记录的文件尝试关联在应用外重命名前的记录
+  async lookup(entries: { absolutePath: string; size?: number }[]): Promise<Map<string, Annotation>> {
+    await this.load();
+    const result = new Map<string, Annotation>();
+    const missing: { absolutePath: string; size: number }[] = [];
+    for (const { absolutePath, size } of entries) {
+      const record = this.records.get(absolutePath);
+      if (record) {
+        result.set(absolutePath, record);
+      } else if (size !== undefined && size > 0) {
+        missing.push({ absolutePath, size });
+      }
+    }
+    if (missing.length > 0 && this.records.size > 0) {
+      for (const [absolutePath, record] of await this.reattach(missing)) {
+        result.set(absolutePath, record);
+      }
+    }
+    return result;
+  }
+
+  async get(absolutePath: string): Promise<Annotation> {
+    await this.load();
+    return this.records.get(absolutePath) ?? EMPTY_ANNOTATION;
+  }
+
+  // 修改多个文件的整理信息，返回修改后的值；全部清除时删除记录
+  async update(absolutePaths: string[], patch: AnnotationPatch): Promise<Map<string, Annotation>> {
+    await this.load();
+    const result = new Map<string, Annotation>();
+    for (const absolutePath of absolutePaths) {
+      const stat = await fs.stat(absolutePath);
+      const current = this.records.get(absolutePath);
+      let tags = patch.tags ?? current?.tags ?? [];
+      if (patch.addTags) {
+        tags = [...tags, ...patch.addTags.filter(tag => !tags.includes(tag))];
+      }
+      if (patch.removeTags) {
+        tags = tags.filter(tag => !patch.removeTags!.includes(tag));
+      }
+      const annotation: Annotation = {
+        rating: patch.rating ?? current?.rating ?? 0,
+        label: patch.label !== undefined ? patch.label : current?.label ?? null,
+        favorite: patch.favorite ?? current?.favorite ?? false,
+        tags,
+      };
+
+      if (isEmptyAnnotation(annotation)) {
+        this.records.delete(absolutePath);
+      } else {
+        // 文件修改过（如旋转后写回）时更新指纹
+        const fingerprint = current && current.size === stat.size
+          ? current.fingerprint
+          : await computeFingerprint(absolutePath, stat.size);
+        this.records.set(absolutePath, { ...annotation, size: stat.size, fingerprint });
+      }
+      result.set(absolutePath, annotation);
+    }
+    this.scheduleSave();
+    return result;
+  }
+
+  // 文件或目录在应用内被重命名、移动或移到回收站后，记录跟随到新路径
+  async move(source: string, target: string): Promise<void> {
+    await this.load();
+    let changed = false;
+    for (const [absolutePath, record] of [...this.records]) {
+      if (absolutePath === source) {
+        this.records.delete(absolutePath);
+        this.records.set(target, record);
+        changed = true;
+      } else if (isInside(absolutePath, source)) {
+        this.records.delete(absolutePath);
+        this.records.set(path.join(target, path.relative(source, absolutePath)), record);
+        changed = true;
+      }
+    }
+    if (changed) this.scheduleSave();
+  }
+
+  // 大小相同且原路径已不存在的记录中，找出指纹相同的，改为新路径
+  private async reattach(missing: { absolutePath: string; size: number }[]): Promise<Map<string, AnnotationRecord>> {
+    const result = new Map<string, AnnotationRecord>();
+    const bySize = new Map<number, string[]>();
+    for (const [absolutePath, record] of this.records) {
+      const paths = bySize.get(record.size);
+      if (paths) {
+        paths.push(absolutePath);
+      } else {
+        bySize.set(record.size, [absolutePath]);
+      }
+    }
+
+    for (const { absolutePath, size } of missing) {
+      const candidates = bySize.get(size);
+      if (!candidates) continue;
+      let fingerprint: string | null = null;
+      for (const candidate of candidates) {
+        const record = this.records.get(candidate);
+        if (!record) continue;
+        if (await fs.access(candidate).then(() => true, () => false)) continue;
+        fingerprint ??= await computeFingerprint(absolutePath, size).catch(() => '');
+        if (record.fingerprint !== fingerprint) continue;
+        this.records.delete(candidate);
+        this.records.set(absolutePath, record);
+        result.set(absolutePath, record);
+        this.scheduleSave();
+        break;
+      }
+    }
+    return result;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const saved: Record<string, AnnotationRecord> = JSON.parse(await fs.readFile(this.file, 'utf-8'));
+          this.records = new Map(Object.entries(saved));
+        } catch {
+          // 数据库不存在或已损坏，从空数据库开始
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => {
+        console.error('Error saving annotations:', error);
+      });
+    }, STORE_SAVE_DELAY);
+    this.saveTimer.unref?.();
+  }
+
+  private async save() {
+    const tmpFile = `${this.file}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(tmpFile, JSON.stringify(Object.fromEntries(this.records)));
+    await fs.rename(tmpFile, this.file);
+  }
+}
+
+// 开发模式下模块会被重复加载，数据库实例挂在 globalThis 上保证全局唯一
+const globalForStore = globalThis as typeof globalThis & {
+  annotationStore?: AnnotationStore;
+};
+
+export function getAnnotationStore(): AnnotationStore {
+  if (!globalForStore.annotationStore) {
+    globalForStore.annotationStore = new AnnotationStore(path.join(getConfig().dataDir, STORE_FILE));
+  }
+  return globalForStore.annotationStore;
+}
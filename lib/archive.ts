@@ -0,0 +1,112 @@
+import fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import path from 'path';
+import { resolveLibraryPath, type ResolvedPath } from './library';
+import { FileOpError } from './file-ops';
+import { naturalCompare } from './fs-items';
+import type { ZipEntry } from './zip-writer';
+import { splitArchivePath } from './zip-archive';
+
+// 打包下载：把选中的文件和目录整理成 ZIP 条目
+// 与目录列表一致，跳过隐藏文件（包括回收站和编辑备份）；不进入目录符号链接，
+// 文件符号链接只在指向图库内时才打包。
+
+export type ArchiveSource = ResolvedPath & {
+  // 在压缩包中的顶层名称（重名时加序号）
+  name: string;
+};
+
+// 解析要打包的路径，确认都存在
+export async function resolveArchiveSources(inputs: string[]): Promise<ArchiveSource[]> {
+  if (inputs.length === 0) {
+    throw new FileOpError('Missing path parameter');
+  }
+
+  const usedNames = new Set<string>();
+  const sources: ArchiveSource[] = [];
+  for (const input of inputs) {
+    // 压缩包内的条目不能再次打包（直接下载条目即可）
+    if (splitArchivePath(input)) {
+      throw new FileOpError('Archive entries cannot be downloaded as a ZIP');
+    }
+    const resolved = await resolveLibraryPath(input);
+    try {
+      await fs.stat(resolved.absolutePath);
+    } catch {
+      throw new FileOpError(`Not found: ${input}`, 404, 'NOT_FOUND');
+    }
+
+    // 图库根目录本身使用根目录名称
+    const baseName = path.basename(resolved.absolutePath) || resolved.root.name;
+    const ext = path.extname(baseName);
+    let name = baseName;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${path.basename(baseName, ext)} (${i})${ext}`;
+    }
+    usedNames.add(name);
+    sources.push({ ...resolved, name });
+  }
+  return sources;
+}
+
+// 下载的文件名：单个条目使用其名称，多个条目使用所在目录的名称
+export function getArchiveName(sources: ArchiveSource[]): string {
+  if (sources.length === 1) {
+    return `${sources[0].name}.zip`;
+  }
+  const parent = path.basename(path.dirname(sources[0].absolutePath));
+  return `${parent || 'download'}.zip`;
+}
+
+// 文件符号链接：确认目标在图库内
+async function isAllowedLink(absolutePath: string): Promise<boolean> {
+  try {
+    await resolveLibraryPath(absolutePath);
+    return (await fs.stat(absolutePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function* walkDirectory(dir: string, prefix: string, recursive: boolean): AsyncGenerator<ZipEntry> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    // 无权限等情况，跳过该目录
+    return;
+  }
+  entries.sort((a, b) => naturalCompare(a.name, b.name));
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const absolutePath = path.join(dir, entry.name);
+    const name = `${prefix}${entry.name}`;
+
+    if (entry.isDirectory()) {
+      if (!recursive) continue;
+      const stat = await fs.stat(absolutePath).catch(() => null);
+      if (!stat) continue;
+      yield { name: `${name}/`, absolutePath: null, mtime: stat.mtime, mode: stat.mode };
+      yield* walkDirectory(absolutePath, `${name}/`, recursive);
+    } else if (entry.isFile() || (entry.isSymbolicLink() && await isAllowedLink(absolutePath))) {
+      const stat = await fs.stat(absolutePath).catch(() => null);
+      if (!stat) continue;
+      yield { name, absolutePath, mtime: stat.mtime, mode: stat.mode };
+    }
+  }
+}
+
+// 依次生成各个来源的条目；recursive 为 false 时目录只打包其中的文件
+export async function* collectArchiveEntries(sources: ArchiveSource[], recursive: boolean): AsyncGenerator<ZipEntry> {
+  for (const source of sources) {
+    const stat = await fs.stat(source.absolutePath).catch(() => null);
+    if (!stat) continue;
+    if (stat.isDirectory()) {
+      yield { name: `${source.name}/`, absolutePath: null, mtime: stat.mtime, mode: stat.mode };
+      yield* walkDirectory(source.absolutePath, `${source.name}/`, recursive);
+    } else {
+      yield { name: source.name, absolutePath: source.absolutePath, mtime: stat.mtime, mode: stat.mode };
+    }
+  }
+}
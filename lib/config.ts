@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+// 服务器端配置
+// 读取顺序：环境变量 > 配置文件（WEBPICVIEWER_CONFIG 指定，默认为项目目录下的 webpicviewer.config.json）> 默认值
+
+// 图库根目录配置
+export type RootConfig = {
+  name: string;
+  path: string;
+};
+
+export type AppConfig = {
+  roots: RootConfig[];
+  // 应用数据目录（缩略图缓存等）
+  dataDir: string;
+  // 缩略图缓存目录
+  thumbnailCacheDir: string;
+  // 缩略图缓存容量上限（MB）
+  thumbnailCacheMaxMB: number;
+  // ffmpeg 可执行文件，用于生成视频封面
+  ffmpegPath: string;
+  // 同时运行的图片处理（缩略图、转码、导出等）数量
+  imageConcurrency: number;
+};
+
+const DEFAULT_CONFIG_FILE = 'webpicviewer.config.json';
+const DEFAULT_DATA_DIR = '~/.webpicviewer';
+const DEFAULT_THUMBNAIL_CACHE_MAX_MB = 512;
+const DEFAULT_FFMPEG_PATH = 'ffmpeg';
+// libvips 单个处理内部已是多线程，同时运行的处理数不必超过 CPU 核数
+const DEFAULT_IMAGE_CONCURRENCY = Math.max(2, os.availableParallelism());
+
+let cachedConfig: AppConfig | null = null;
+
+// 解析路径中的 ~ 为用户主目录
+export function expandHome(p: string): string {
+  if (p === '~' || p.startsWith('~/') || p.startsWith('~\\')) {
+    return path.join(os.homedir(), p.slice(1));
+  }
+  return p;
+}
+
+// 读取配置文件（不存在时返回空对象）
+function readConfigFile(): Partial<AppConfig> {
+  const configPath = path.resolve(process.env.WEBPICVIEWER_CONFIG || DEFAULT_CONFIG_FILE);
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT' && !process.env.WEBPICVIEWER_CONFIG) {
+      return {};
+    }
+    throw new Error(`Failed to read config file ${configPath}: ${(err as Error).message}`);
+  }
+}
+
+// 解析 WEBPICVIEWER_ROOTS 环境变量
+// 格式与 PATH 相同，以系统路径分隔符分隔，每项为 "名称=路径" 或单独的路径（名称取目录名）
+function parseRootsEnv(value: string): RootConfig[] {
+  return value
+    .split(path.delimiter)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const eq = entry.indexOf('=');
+      if (eq > 0) {
+        return { name: entry.slice(0, eq).trim(), path: entry.slice(eq + 1).trim() };
+      }
+      return { name: path.basename(expandHome(entry)) || entry, path: entry };
+    });
+}
+
+export function getConfig(): AppConfig {
+  if (cachedConfig) return cachedConfig;
+
+  const fileConfig = readConfigFile();
+
+  let roots: RootConfig[] = Array.isArray(fileConfig.roots) ? fileConfig.roots : [];
+  if (process.env.WEBPICVIEWER_ROOTS) {
+    roots = parseRootsEnv(process.env.WEBPICVIEWER_ROOTS);
+  }
+  // 未配置时默认只开放用户主目录
+  if (roots.length === 0) {
+    roots = [{ name: '主目录', path: '~' }];
+  }
+
+  const dataDir = path.resolve(expandHome(
+    process.env.WEBPICVIEWER_DATA_DIR || fileConfig.dataDir || DEFAULT_DATA_DIR
+  ));
+  const thumbnailCacheDir = path.resolve(expandHome(
+    process.env.WEBPICVIEWER_THUMBNAIL_CACHE_DIR || fileConfig.thumbnailCacheDir || path.join(dataDir, 'thumbnails')
+  ));
+  const thumbnailCacheMaxMB = Number(
+    process.env.WEBPICVIEWER_THUMBNAIL_CACHE_MB || fileConfig.thumbnailCacheMaxMB || DEFAULT_THUMBNAIL_CACHE_MAX_MB
+  );
+  const imageConcurrency = Number(
+    process.env.WEBPICVIEWER_IMAGE_CONCURRENCY || fileConfig.imageConcurrency || DEFAULT_IMAGE_CONCURRENCY
+  );
+
+  cachedConfig = {
+    roots: roots.map(root => ({
+      name: root.name,
+      path: path.resolve(expandHome(root.path)),
+    })),
+    dataDir,
+    thumbnailCacheDir,
+    thumbnailCacheMaxMB: Number.isFinite(thumbnailCacheMaxMB) && thumbnailCacheMaxMB >= 0
+      ? thumbnailCacheMaxMB
+      : DEFAULT_THUMBNAIL_CACHE_MAX_MB,
+    ffmpegPath: process.env.WEBPICVIEWER_FFMPEG || fileConfig.ffmpegPath || DEFAULT_FFMPEG_PATH,
+    imageConcurrency: Number.isInteger(imageConcurrency) && imageConcurrency >= 1
+      ? imageConcurrency
+      : DEFAULT_IMAGE_CONCURRENCY,
+  };
+  return cachedConfig;
+}
@@ -0,0 +1,166 @@
+import fs from 'fs/promises';
+import { watch, type FSWatcher } from 'fs';
+import path from 'path';
+import { toClientPath } from './library';
+import { getAnnotationStore } from './annotations';
+import { toAnnotationFields, type FSItem } from './fs-items';
+
+// 监视打开的目录，把新增、删除和修改的文件推送给浏览器
+// 同一目录的多个订阅者共用一个 fs.watch；最后一个订阅者退出时关闭。
+// fs.watch 只报告发生变化的文件名，变化类型由之后的 stat 结果和已知的文件名集合判断：
+// 重命名表现为旧名称的 remove 加新名称的 add。
+
+export type WatchEvent =
+  | { type: 'add'; item: FSItem }
+  | { type: 'change'; item: FSItem }
+  | { type: 'remove'; path: string }
+  // 无法确定具体变化（如系统未提供文件名），客户端应重新加载目录
+  | { type: 'reset' };
+
+type WatchListener = (event: WatchEvent) => void;
+// 监视器因出错而关闭（目录被删除或移走），订阅者不会再收到事件
+type CloseListener = () => void;
+
+// 同一文件的连续事件（写入过程中会触发多次）合并后再处理
+const SETTLE_DELAY_MS = 300;
+
+class DirectoryWatcher {
+  // 订阅者及其关闭回调
+  private listeners = new Map<WatchListener, CloseListener | undefined>();
+  private watcher: FSWatcher | null = null;
+  // 目录中已知的条目名称（不含隐藏文件）
+  private names = new Set<string>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private readonly absolutePath: string, private readonly onIdle: () => void) {}
+
+  async start(): Promise<void> {
+    const entries = await fs.readdir(this.absolutePath);
+    this.names = new Set(entries.filter(name => !name.startsWith('.')));
+    this.watcher = watch(this.absolutePath, (_event, filename) => {
+      if (filename === null) {
+        this.emit({ type: 'reset' });
+        return;
+      }
+      this.schedule(filename.toString());
+    });
+    this.watcher.on('error', () => this.fail());
+  }
+
+  subscribe(listener: WatchListener, onClose?: CloseListener): () => void {
+    this.listeners.set(listener, onClose);
+    return () => {
+      // 监视器已关闭时订阅者已被清除，不再重复关闭
+      if (this.listeners.delete(listener) && this.listeners.size === 0) this.close();
+    };
+  }
+
+  private schedule(name: string) {
+    // 跳过隐藏文件（回收站、编辑时的临时文件和备份）
+    if (name.startsWith('.') || name.includes('/')) return;
+    clearTimeout(this.timers.get(name));
+    this.timers.set(name, setTimeout(() => {
+      this.timers.delete(name);
+      this.inspect(name).catch(err => console.error('Error inspecting watched file:', err));
+    }, SETTLE_DELAY_MS));
+  }
+
+  private async inspect(name: string) {
+    const absolutePath = path.join(this.absolutePath, name);
+    const stat = await fs.stat(absolutePath).catch(() => null);
+    if (!stat) {
+      // Linux 上目录本身被删除或移走时不报错，只报告一个以目录名命名的变化
+      if (!await fs.stat(this.absolutePath).catch(() => null)) {
+        this.fail();
+        return;
+      }
+      if (this.names.delete(name)) {
+        this.emit({ type: 'remove', path: toClientPath(absolutePath) });
+      }
+      return;
+    }
+
+    const isDirectory = stat.isDirectory();
+    const item: FSItem = {
+      name,
+      type: isDirectory ? 'directory' : 'file',
+      path: toClientPath(absolutePath),
+      ext: isDirectory ? '' : path.extname(name).toLowerCase(),
+      size: stat.size,
+      mtime: stat.mtime.toISOString(),
+    };
+    if (!isDirectory) {
+      // 在应用外被重命名的文件会在这里关联原来的评分等信息
+      const annotations = await getAnnotationStore().lookup([{ absolutePath, size: stat.size }]);
+      Object.assign(item, toAnnotationFields(annotations.get(absolutePath)));
+    }
+    if (this.names.has(name)) {
+      // 目录内部的变化不影响列表
+      if (!isDirectory) this.emit({ type: 'change', item });
+    } else {
+      this.names.add(name);
+      this.emit({ type: 'add', item });
+    }
+  }
+
+  private emit(event: WatchEvent) {
+    for (const listener of this.listeners.keys()) {
+      listener(event);
+    }
+  }
+
+  // 目录被删除或移走：通知客户端重新加载后关闭
+  private fail() {
+    // 多个文件的检查可能同时发现目录已不存在
+    if (!this.watcher) return;
+    this.emit({ type: 'reset' });
+    this.close();
+  }
+
+  private close() {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    // 出错关闭时通知剩余的订阅者（最后一个订阅者退出时已没有订阅者）
+    const closeListeners = [...this.listeners.values()];
+    this.listeners.clear();
+    this.onIdle();
+    for (const onClose of closeListeners) {
+      onClose?.();
+    }
+  }
+}
+
+// 开发模式下模块会被重复加载，监视器挂在 globalThis 上保证同一目录只监视一次
+const globalForWatchers = globalThis as typeof globalThis & {
+  directoryWatchers?: Map<string, Promise<DirectoryWatcher>>;
+};
+
+function getWatchers(): Map<string, Promise<DirectoryWatcher>> {
+  if (!globalForWatchers.directoryWatchers) {
+    globalForWatchers.directoryWatchers = new Map();
+  }
+  return globalForWatchers.directoryWatchers;
+}
+
+// 订阅目录的变化，返回取消订阅的函数；监视器出错关闭时调用 onClose
+export async function watchDirectory(
+  absolutePath: string,
+  listener: WatchListener,
+  onClose?: CloseListener
+): Promise<() => void> {
+  const watchers = getWatchers();
+  let pending = watchers.get(absolutePath);
+  if (!pending) {
+    const watcher = new DirectoryWatcher(absolutePath, () => {
+      if (watchers.get(absolutePath) === pending) watchers.delete(absolutePath);
+    });
+    pending = watcher.start().then(() => watcher);
+    pending.catch(() => watchers.delete(absolutePath));
+    watchers.set(absolutePath, pending);
+  }
+  return (await pending).subscribe(listener, onClose);
+}
@@ -0,0 +1,244 @@
+import { createReadStream } from 'fs';
+import crypto from 'crypto';
+import { toClientPath } from './library';
+import { IMAGE_EXTS } from './image-formats';
+import { searchFiles } from './fs-search';
+import { getHashIndex, hashDistance, toHashWords } from './perceptual-hash';
+import type { FSItem } from './fs-items';
+
+// 查找重复和相似的图片（后台任务）
+// 先列出目录树中的全部图片，逐个计算感知哈希（已计算过且未修改的直接使用保存的结果），
+// 然后把汉明距离不超过阈值的图片合并为一组。组内文件内容完全相同时为 exact，否则为 similar。
+
+export type DuplicateItem = FSItem & {
+  width: number;
+  height: number;
+  // 相似组中与排在前面的某个图片内容完全相同时，为该图片的路径
+  identicalTo?: string;
+};
+
+export type DuplicateGroup = {
+  kind: 'exact' | 'similar';
+  // 按分辨率、文件大小从大到小排列，第一个为建议保留的图片
+  items: DuplicateItem[];
+};
+
+export type DuplicateScan = {
+  id: string;
+  path: string;
+  threshold: number;
+  status: 'running' | 'done' | 'cancelled' | 'error';
+  // 已处理/图片总数（列出文件期间 total 为 null）
+  processed: number;
+  total: number | null;
+  groups: DuplicateGroup[];
+  // 无法解码而跳过的图片数
+  failed: number;
+  error: string | null;
+};
+
+export const DEFAULT_THRESHOLD = 6;
+export const MAX_THRESHOLD = 20;
+// 最多扫描的子目录层数
+const MAX_DEPTH = 32;
+// 保留的已结束任务数
+const MAX_FINISHED_SCANS = 10;
+
+type ScanJob = {
+  scan: DuplicateScan;
+  controller: AbortController;
+};
+
+// 开发模式下模块会被重复加载，任务列表挂在 globalThis 上
+const globalForScans = globalThis as typeof globalThis & {
+  duplicateScans?: Map<string, ScanJob>;
+};
+
+function getScans(): Map<string, ScanJob> {
+  if (!globalForScans.duplicateScans) {
+    globalForScans.duplicateScans = new Map();
+  }
+  return globalForScans.duplicateScans;
+}
+
+// 文件内容的 SHA-1
+async function hashFileContent(absolutePath: string): Promise<string> {
+  const digest = crypto.createHash('sha1');
+  for await (const chunk of createReadStream(absolutePath)) {
+    digest.update(chunk as Buffer);
+  }
+  return digest.digest('hex');
+}
+
+// 按汉明距离聚类（并查集），距离不超过阈值的图片连通即为一组
+// 两两比较，图片很多时耗时较长，每比较一批让出事件循环
+async function clusterByHash(hashes: string[], threshold: number, signal: AbortSignal): Promise<number[][]> {
+  const words = hashes.map(toHashWords);
+  const parent = hashes.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (let i = 0; i < words.length; i++) {
+    if (i % 256 === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+      if (signal.aborted) return [];
+    }
+    for (let j = i + 1; j < words.length; j++) {
+      if (hashDistance(words[i], words[j]) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  hashes.forEach((_, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(i);
+    } else {
+      clusters.set(root, [i]);
+    }
+  });
+  return [...clusters.values()].filter(cluster => cluster.length > 1);
+}
+
+// 找出组内内容完全相同的文件（只比较大小相同的文件），全部相同时为 exact 组
+async function classifyGroup(items: DuplicateItem[]): Promise<DuplicateGroup> {
+  const sizeCounts = new Map<number, number>();
+  for (const item of items) {
+    sizeCounts.set(item.size!, (sizeCounts.get(item.size!) ?? 0) + 1);
+  }
+
+  // 内容摘要 -> 第一个该内容的文件
+  const firstByDigest = new Map<string, string>();
+  const marked: DuplicateItem[] = [];
+  for (const item of items) {
+    if (sizeCounts.get(item.size!)! < 2) {
+      marked.push(item);
+      continue;
+    }
+    const digest = `${item.size}:${await hashFileContent(item.path)}`;
+    const first = firstByDigest.get(digest);
+    if (first) {
+      marked.push({ ...item, identicalTo: first });
+    } else {
+      firstByDigest.set(digest, item.path);
+      marked.push(item);
+    }
+  }
+
+  const exact = marked.every((item, i) => i === 0 || item.identicalTo === marked[0].path);
+  return { kind: exact ? 'exact' : 'similar', items: marked };
+}
+
+async function runScan(job: ScanJob, absolutePath: string) {
+  const { scan, controller } = job;
+  const signal = controller.signal;
+
+  const files: FSItem[] = [];
+  for await (const item of searchFiles(absolutePath, {
+    matchName: null,
+    extensions: IMAGE_EXTS,
+    minSize: null,
+    maxSize: null,
+    after: null,
+    before: null,
+    maxDepth: MAX_DEPTH,
+    signal,
+  })) {
+    files.push(item);
+  }
+  scan.total = files.length;
+
+  const index = getHashIndex();
+  const hashed: { item: DuplicateItem; hash: string }[] = [];
+  for (const file of files) {
+    if (signal.aborted) return;
+    try {
+      const { hash, width, height } = await index.get(file.path, {
+        mtimeMs: Date.parse(file.mtime!),
+        size: file.size!,
+      });
+      hashed.push({ item: { ...file, width, height }, hash });
+    } catch {
+      scan.failed++;
+    }
+    scan.processed++;
+  }
+  await index.prune(absolutePath, new Set(files.map(file => file.path)));
+  await index.flush();
+
+  const groups: DuplicateGroup[] = [];
+  for (const cluster of await clusterByHash(hashed.map(entry => entry.hash), scan.threshold, signal)) {
+    if (signal.aborted) return;
+    const items = cluster
+      .map(i => hashed[i].item)
+      .sort((a, b) => b.width * b.height - a.width * a.height || b.size! - a.size!);
+    groups.push(await classifyGroup(items));
+  }
+  // 完全相同的组在前
+  scan.groups = groups.sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'exact' ? -1 : 1));
+}
+
+// 删除多余的已结束任务
+function pruneScans() {
+  const scans = getScans();
+  const finished = [...scans.values()].filter(job => job.scan.status !== 'running');
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_SCANS))) {
+    scans.delete(job.scan.id);
+  }
+}
+
+// 开始扫描目录；同一目录和阈值的扫描正在进行时返回该任务
+export function startDuplicateScan(absolutePath: string, threshold: number): DuplicateScan {
+  const scans = getScans();
+  const clientPath = toClientPath(absolutePath);
+  for (const job of scans.values()) {
+    if (job.scan.status === 'running' && job.scan.path === clientPath && job.scan.threshold === threshold) {
+      return job.scan;
+    }
+  }
+
+  const job: ScanJob = {
+    scan: {
+      id: crypto.randomUUID(),
+      path: clientPath,
+      threshold,
+      status: 'running',
+      processed: 0,
+      total: null,
+      groups: [],
+      failed: 0,
+      error: null,
+    },
+    controller: new AbortController(),
+  };
+  scans.set(job.scan.id, job);
+  pruneScans();
+
+  runScan(job, absolutePath)
+    .then(() => {
+      job.scan.status = job.controller.signal.aborted ? 'cancelled' : 'done';
+    })
+    .catch(error => {
+      console.error('Error scanning for duplicates:', error);
+      job.scan.status = 'error';
+      job.scan.error = error instanceof Error ? error.message : String(error);
+    });
+  return job.scan;
+}
+
+export function getDuplicateScan(id: string): DuplicateScan | null {
+  return getScans().get(id)?.scan ?? null;
+}
+
+export function cancelDuplicateScan(id: string): DuplicateScan | null {
+  const job = getScans().get(id);
+  job?.controller.abort();
+  return job?.scan ?? null;
+}
@@ -0,0 +1,299 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { getLibraryRoots, resolveLibraryPath, toClientPath, type ResolvedPath } from './library';
+import { getThumbnailCache } from './thumbnail-cache';
+import { getAnnotationStore } from './annotations';
+
+// 文件管理操作：重命名、移动、复制、新建文件夹、删除到回收站
+// 所有路径都经过 resolveLibraryPath 校验，与只读路由使用相同的访问限制。
+// 删除的条目移动到所在图库根目录下的回收站文件夹，可以撤销恢复。
+
+// 回收站文件夹名（以 . 开头，目录列表和搜索中不显示）
+export const TRASH_DIR_NAME = '.webpicviewer-trash';
+// 回收站中每个条目的记录文件扩展名：<id>.json 与条目目录 <id>/ 并列存放
+const TRASH_INFO_EXT = '.json';
+
+// 操作失败（目标已存在、名称非法等），路由按 status 返回
+export class FileOpError extends Error {
+  constructor(message: string, readonly status: number = 400, readonly code: string = 'FILE_OP_FAILED') {
+    super(message);
+    this.name = 'FileOpError';
+  }
+}
+
+export function fileOpErrorResponse(error: FileOpError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+// 读取 JSON 请求体
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json();
+    if (body && typeof body === 'object') return body;
+  } catch {
+    // 下面统一报错
+  }
+  throw new FileOpError('Request body must be a JSON object');
+}
+
+type TrashInfo = {
+  // 原始绝对路径
+  originalPath: string;
+  deletedAt: string;
+};
+
+export type TrashedEntry = {
+  // 回收站条目 ID，用于撤销
+  id: string;
+  path: string;
+};
+
+// 检查文件名：不能为空、不能包含路径分隔符，不能是 . 或 ..，也不能与回收站文件夹同名
+function validateName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new FileOpError('Name must not be empty', 400, 'INVALID_NAME');
+  }
+  const trimmed = name.trim();
+  if (trimmed === '.' || trimmed === '..' || /[/\\\0]/.test(trimmed)) {
+    throw new FileOpError(`Invalid name: ${trimmed}`, 400, 'INVALID_NAME');
+  }
+  if (trimmed.toLowerCase() === TRASH_DIR_NAME) {
+    throw new FileOpError(`Reserved name: ${trimmed}`, 400, 'INVALID_NAME');
+  }
+  return trimmed;
+}
+
+async function exists(p: string): Promise<boolean> {
+  try {
+    await fs.lstat(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 两个路径是否指向同一个文件（大小写不敏感的文件系统上只有大小写不同的路径）
+async function isSameFile(a: string, b: string): Promise<boolean> {
+  try {
+    const [statA, statB] = await Promise.all([fs.lstat(a), fs.lstat(b)]);
+    return statA.dev === statB.dev && statA.ino === statB.ino;
+  } catch {
+    return false;
+  }
+}
+
+function isInsideOrEqual(parent: string, child: string): boolean {
+  const rel = path.relative(parent, child);
+  return rel === '' || (rel !== '..' && !rel.startsWith('..' + path.sep) && !path.isAbsolute(rel));
+}
+
+function isInTrash(resolved: ResolvedPath): boolean {
+  return isInsideOrEqual(path.join(resolved.root.path, TRASH_DIR_NAME), resolved.absolutePath);
+}
+
+// 解析要修改的已有条目：不能是图库根目录本身，也不能位于回收站中
+export async function resolveExistingEntry(input: unknown): Promise<ResolvedPath> {
+  if (typeof input !== 'string' || input === '') {
+    throw new FileOpError('Missing path');
+  }
+  const resolved = await resolveLibraryPath(input);
+  if (path.resolve(resolved.absolutePath) === path.resolve(resolved.root.path)) {
+    throw new FileOpError('Cannot modify a library root', 403, 'ROOT_PROTECTED');
+  }
+  if (isInTrash(resolved)) {
+    throw new FileOpError('Cannot modify items in the trash', 403, 'TRASH_PROTECTED');
+  }
+  if (!await exists(resolved.absolutePath)) {
+    throw new FileOpError(`Not found: ${input}`, 404, 'NOT_FOUND');
+  }
+  return resolved;
+}
+
+// 解析已有的目标目录（不能是回收站或其中的目录）
+export async function resolveDirectory(input: unknown): Promise<ResolvedPath> {
+  if (typeof input !== 'string' || input === '') {
+    throw new FileOpError('Missing destination');
+  }
+  const resolved = await resolveLibraryPath(input);
+  if (isInTrash(resolved)) {
+    throw new FileOpError('Cannot add items to the trash', 403, 'TRASH_PROTECTED');
+  }
+  try {
+    const stat = await fs.stat(resolved.absolutePath);
+    if (!stat.isDirectory()) {
+      throw new FileOpError('Destination is not a directory');
+    }
+  } catch (err) {
+    if (err instanceof FileOpError) throw err;
+    throw new FileOpError('Destination directory not found', 404, 'NOT_FOUND');
+  }
+  return resolved;
+}
+
+async function ensureTargetFree(target: string) {
+  if (await exists(target)) {
+    throw new FileOpError(`Already exists: ${path.basename(target)}`, 409, 'ALREADY_EXISTS');
+  }
+}
+
+// 移动文件或目录；跨文件系统时改为复制后删除
+async function moveEntry(source: string, target: string) {
+  try {
+    await fs.rename(source, target);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+    await fs.cp(source, target, { recursive: true, errorOnExist: true, force: false, preserveTimestamps: true });
+    await fs.rm(source, { recursive: true, force: true });
+  }
+  // 旧路径的缓存已不会再用到（目录包括其中全部文件），清理失败不影响移动的结果
+  try {
+    await getThumbnailCache().invalidate(source);
+  } catch (err) {
+    console.error('Error invalidating thumbnail cache:', err);
+  }
+  await getAnnotationStore().move(source, target);
+}
+
+function toArray(value: unknown): unknown[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new FileOpError('Missing paths');
+  }
+  return value;
+}
+
+// 重命名，返回新路径
+export async function renameEntry(input: unknown, newName: unknown): Promise<string> {
+  const { absolutePath } = await resolveExistingEntry(input);
+  const name = validateName(newName);
+  const target = path.join(path.dirname(absolutePath), name);
+  if (target === absolutePath) return toClientPath(target);
+
+  // 只改变大小写时，大小写不敏感的文件系统上目标“已存在”但就是原文件本身，直接重命名；
+  // 大小写敏感的文件系统上同名的另一个文件照常视为冲突
+  if (!await isSameFile(absolutePath, target)) {
+    await ensureTargetFree(target);
+  }
+  await moveEntry(absolutePath, target);
+  return toClientPath(target);
+}
+
+// 移动或复制到目标目录，返回新路径列表
+export async function transferEntries(inputs: unknown, destination: unknown, mode: 'move' | 'copy'): Promise<string[]> {
+  const sources = await Promise.all(toArray(inputs).map(resolveExistingEntry));
+  const { absolutePath: destDir } = await resolveDirectory(destination);
+
+  // 先检查全部条目，避免只完成一部分；来自不同目录的同名条目会互相覆盖
+  const targets = sources.map(({ absolutePath }) => path.join(destDir, path.basename(absolutePath)));
+  const seen = new Set<string>();
+  for (const target of targets) {
+    if (seen.has(target)) {
+      throw new FileOpError(`Duplicate name in selection: ${path.basename(target)}`, 409, 'ALREADY_EXISTS');
+    }
+    seen.add(target);
+  }
+  for (let i = 0; i < sources.length; i++) {
+    const source = sources[i].absolutePath;
+    if (isInsideOrEqual(source, destDir)) {
+      throw new FileOpError(`Cannot ${mode} a folder into itself: ${path.basename(source)}`);
+    }
+    if (mode === 'move' && path.dirname(source) === destDir) {
+      throw new FileOpError(`Already in the destination folder: ${path.basename(source)}`, 409, 'ALREADY_EXISTS');
+    }
+    await ensureTargetFree(targets[i]);
+  }
+
+  for (let i = 0; i < sources.length; i++) {
+    if (mode === 'move') {
+      await moveEntry(sources[i].absolutePath, targets[i]);
+    } else {
+      await fs.cp(sources[i].absolutePath, targets[i], {
+        recursive: true,
+        errorOnExist: true,
+        force: false,
+        preserveTimestamps: true,
+      });
+    }
+  }
+  return targets.map(toClientPath);
+}
+
+// 解析多个已有的文件（不能是目录），用于修改评分、导出 XMP 等只针对文件的操作
+export async function resolveExistingFiles(inputs: unknown): Promise<ResolvedPath[]> {
+  const resolved = await Promise.all(toArray(inputs).map(resolveExistingEntry));
+  for (const { absolutePath } of resolved) {
+    if ((await fs.stat(absolutePath)).isDirectory()) {
+      throw new FileOpError(`Not a file: ${toClientPath(absolutePath)}`);
+    }
+  }
+  return resolved;
+}
+
+// 新建文件夹，返回新路径
+export async function createDirectory(parent: unknown, name: unknown): Promise<string> {
+  const { absolutePath: parentDir } = await resolveDirectory(parent);
+  const target = path.join(parentDir, validateName(name));
+  await ensureTargetFree(target);
+  await fs.mkdir(target);
+  return toClientPath(target);
+}
+
+// 删除到回收站：每个条目放在 <根目录>/.webpicviewer-trash/<id>/ 下，原始路径记录在 <id>.json 中
+export async function trashEntries(inputs: unknown): Promise<TrashedEntry[]> {
+  const sources = await Promise.all(toArray(inputs).map(resolveExistingEntry));
+
+  const trashed: TrashedEntry[] = [];
+  for (const { root, absolutePath } of sources) {
+    const id = `${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`;
+    const trashDir = path.join(root.path, TRASH_DIR_NAME);
+    const itemDir = path.join(trashDir, id);
+    await fs.mkdir(itemDir, { recursive: true });
+
+    const info: TrashInfo = { originalPath: absolutePath, deletedAt: new Date().toISOString() };
+    await fs.writeFile(path.join(trashDir, id + TRASH_INFO_EXT), JSON.stringify(info));
+    await moveEntry(absolutePath, path.join(itemDir, path.basename(absolutePath)));
+    trashed.push({ id, path: toClientPath(absolutePath) });
+  }
+  return trashed;
+}
+
+// 从回收站恢复到原始位置，返回恢复后的路径列表
+export async function restoreEntries(ids: unknown): Promise<string[]> {
+  const restored: string[] = [];
+  for (const id of toArray(ids)) {
+    if (typeof id !== 'string' || !/^[0-9a-z]+-[0-9a-f]+$/.test(id)) {
+      throw new FileOpError(`Invalid trash id: ${String(id)}`);
+    }
+
+    // 在各个根目录的回收站中查找
+    let found: { trashDir: string; info: TrashInfo } | null = null;
+    for (const root of getLibraryRoots()) {
+      const trashDir = path.join(root.path, TRASH_DIR_NAME);
+      try {
+        const info: TrashInfo = JSON.parse(await fs.readFile(path.join(trashDir, id + TRASH_INFO_EXT), 'utf-8'));
+        found = { trashDir, info };
+        break;
+      } catch {
+        // 不在这个根目录中
+      }
+    }
+    if (!found) {
+      throw new FileOpError(`Not found in trash: ${id}`, 404, 'NOT_FOUND');
+    }
+
+    // 原始位置仍需在图库内且未被占用；父目录已被删除时重新创建
+    const { absolutePath } = await resolveLibraryPath(found.info.originalPath);
+    await ensureTargetFree(absolutePath);
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+    const itemDir = path.join(found.trashDir, id);
+    await moveEntry(path.join(itemDir, path.basename(absolutePath)), absolutePath);
+    await fs.rm(itemDir, { recursive: true, force: true });
+    await fs.rm(path.join(found.trashDir, id + TRASH_INFO_EXT), { force: true });
+    restored.push(toClientPath(absolutePath));
+  }
+  return restored;
+}
@@ -0,0 +1,122 @@
+// 目录列表条目及排序规则，服务端和前端共用
+
+// 颜色标签，与 Lightroom 的五种标签对应
+export const COLOR_LABELS = ['red', 'yellow', 'green', 'blue', 'purple'] as const;
+export type ColorLabel = typeof COLOR_LABELS[number];
+
+// 评分、颜色标签、收藏和标签，保存在应用数据目录中，不修改文件本身
+export type Annotation = {
+  // 0-5 星，0 表示未评分
+  rating: number;
+  label: ColorLabel | null;
+  favorite: boolean;
+  tags: string[];
+};
+
+export type FSItem = {
+  name: string;
+  type: 'directory' | 'file';
+  path: string;
+  ext: string;
+  // 仅在请求 stat 信息时返回
+  size?: number;
+  mtime?: string;
+  // 整理信息，只在设置过时返回
+  rating?: number;
+  label?: ColorLabel;
+  favorite?: boolean;
+  tags?: string[];
+};
+
+// 只返回设置过的字段，合并到 FSItem 中
+export function toAnnotationFields(annotation: Annotation | undefined): Partial<FSItem> {
+  if (!annotation) return {};
+  return {
+    ...(annotation.rating > 0 && { rating: annotation.rating }),
+    ...(annotation.label && { label: annotation.label }),
+    ...(annotation.favorite && { favorite: true }),
+    ...(annotation.tags.length > 0 && { tags: annotation.tags }),
+  };
+}
+
+// 压缩包内条目的虚拟路径中，压缩包路径与包内路径之间的分隔符（book.cbz!/page001.jpg）
+export const ARCHIVE_SEPARATOR = '!/';
+
+// 是否为压缩包内的条目（只读，不能重命名、删除或编辑）
+export function isArchiveEntryPath(path: string): boolean {
+  return path.includes(ARCHIVE_SEPARATOR);
+}
+
+export const SORT_MODES = ['name', 'natural', 'mtime', 'size', 'type', 'rating'] as const;
+export type SortMode = typeof SORT_MODES[number];
+export type SortOrder = 'asc' | 'desc';
+
+// 参与排序的条目，size/mtimeMs 只在按大小或时间排序时需要
+export type SortableEntry = {
+  name: string;
+  isDirectory: boolean;
+  ext: string;
+  size?: number;
+  mtimeMs?: number;
+  rating?: number;
+};
+
+export function parseSortMode(value: string | null): SortMode {
+  return SORT_MODES.includes(value as SortMode) ? value as SortMode : 'name';
+}
+
+export function parseSortOrder(value: string | null): SortOrder {
+  return value === 'desc' ? 'desc' : 'asc';
+}
+
+// 排序是否需要 stat 信息
+export function sortNeedsStat(mode: SortMode): boolean {
+  return mode === 'mtime' || mode === 'size';
+}
+
+// 自然排序：按数值比较数字部分，img2 排在 img10 前面
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export function naturalCompare(a: string, b: string): number {
+  return naturalCollator.compare(a, b);
+}
+
+// 生成排序比较函数；dirsFirst 时目录总在文件之前，不受升降序影响
+export function compareEntries(mode: SortMode, order: SortOrder, dirsFirst: boolean = true) {
+  const direction = order === 'desc' ? -1 : 1;
+
+  return (a: SortableEntry, b: SortableEntry): number => {
+    if (dirsFirst && a.isDirectory !== b.isDirectory) {
+      return a.isDirectory ? -1 : 1;
+    }
+
+    let result = 0;
+    switch (mode) {
+      case 'name':
+        return direction * a.name.localeCompare(b.name);
+      case 'natural':
+        break;
+      case 'mtime':
+        result = (a.mtimeMs ?? 0) - (b.mtimeMs ?? 0);
+        break;
+      case 'size':
+        // 目录的大小没有意义，按名称排列
+        if (!a.isDirectory && !b.isDirectory) {
+          result = (a.size ?? 0) - (b.size ?? 0);
+        }
+        break;
+      case 'rating':
+        result = (a.rating ?? 0) - (b.rating ?? 0);
+        break;
+      case 'type':
+        if (a.isDirectory !== b.isDirectory) {
+          result = a.isDirectory ? -1 : 1;
+        } else {
+          result = a.ext.localeCompare(b.ext);
+        }
+        break;
+    }
+
+    return direction * (result || naturalCompare(a.name, b.name));
+  };
+}
@@ -0,0 +1,152 @@
+import fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import path from 'path';
+import { toClientPath } from './library';
+import { FSItem, naturalCompare } from './fs-items';
+
+// 递归搜索目录树（广度优先，不跟随目录符号链接，因此不会离开起始目录）
+
+// 文件名匹配函数，由 createNameMatcher 生成
+export type NameMatcher = (name: string) => boolean;
+
+export type SearchOptions = {
+  // 文件名匹配，null 表示不限文件名
+  matchName: NameMatcher | null;
+  // 扩展名（小写，带点），为空表示不限
+  extensions: string[];
+  minSize: number | null;
+  maxSize: number | null;
+  // 修改时间范围（毫秒时间戳）
+  after: number | null;
+  before: number | null;
+  // 向下搜索的最大层数，0 表示只搜索起始目录本身
+  maxDepth: number;
+  signal?: AbortSignal;
+};
+
+// 搜索结果流中的一行（NDJSON）
+export type SearchEvent =
+  | { type: 'item'; item: FSItem }
+  | { type: 'done'; count: number; truncated: boolean };
+
+// 通配符无法转换为正则表达式（如 [z-a]），路由返回 400
+export class SearchPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchPatternError';
+  }
+}
+
+function isGlob(query: string): boolean {
+  return /[*?[]/.test(query);
+}
+
+// 将通配符转换为正则表达式
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      source += '.*';
+    } else if (ch === '?') {
+      source += '.';
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else {
+      source += ch.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  try {
+    return new RegExp(`^${source}$`, 'i');
+  } catch {
+    throw new SearchPatternError(`Invalid search pattern: ${glob}`);
+  }
+}
+
+// 根据文件名关键字生成匹配函数，关键字为空时返回 null。
+// 包含 * ? [ 时按通配符匹配整个文件名，否则按子串匹配（均不区分大小写）；通配符无效时抛出 SearchPatternError
+export function createNameMatcher(query: string): NameMatcher | null {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+  if (isGlob(trimmed)) {
+    const regexp = globToRegExp(trimmed);
+    return name => regexp.test(name);
+  }
+  const needle = trimmed.toLowerCase();
+  return name => name.toLowerCase().includes(needle);
+}
+
+export async function* searchFiles(startDir: string, options: SearchOptions): AsyncGenerator<FSItem> {
+  const { matchName } = options;
+  const needsStat = options.minSize !== null || options.maxSize !== null
+    || options.after !== null || options.before !== null;
+  // 只按名称搜索时目录也可以作为结果
+  const includeDirectories = options.extensions.length === 0 && !needsStat && matchName !== null;
+
+  let level = [startDir];
+  for (let depth = 0; depth <= options.maxDepth && level.length > 0; depth++) {
+    const nextLevel: string[] = [];
+
+    for (const dir of level) {
+      if (options.signal?.aborted) return;
+
+      let entries: Dirent[];
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        // 无权限等情况，跳过该目录
+        continue;
+      }
+      entries.sort((a, b) => naturalCompare(a.name, b.name));
+
+      for (const entry of entries) {
+        // 跳过隐藏文件
+        if (entry.name.startsWith('.')) continue;
+        const absolutePath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          nextLevel.push(absolutePath);
+          if (includeDirectories && matchName?.(entry.name)) {
+            yield { name: entry.name, type: 'directory', path: toClientPath(absolutePath), ext: '' };
+          }
+          continue;
+        }
+
+        const ext = path.extname(entry.name).toLowerCase();
+        if (options.extensions.length > 0 && !options.extensions.includes(ext)) continue;
+        if (matchName && !matchName(entry.name)) continue;
+
+        let stat;
+        try {
+          stat = await fs.stat(absolutePath);
+        } catch {
+          continue;
+        }
+        if (!stat.isFile()) continue;
+        if (needsStat) {
+          if (options.minSize !== null && stat.size < options.minSize) continue;
+          if (options.maxSize !== null && stat.size > options.maxSize) continue;
+          if (options.after !== null && stat.mtimeMs < options.after) continue;
+          if (options.before !== null && stat.mtimeMs > options.before) continue;
+        }
+
+        yield {
+          name: entry.name,
+          type: 'file',
+          path: toClientPath(absolutePath),
+          ext,
+          size: stat.size,
+          mtime: stat.mtime.toISOString(),
+        };
+      }
+    }
+
+    level = nextLevel;
+  }
+}
@@ -0,0 +1,128 @@
+import { createReadStream } from 'fs';
+import type { Stats } from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+
+// 文件响应的 HTTP 辅助函数：ETag / Last-Modified 条件请求与 Range 分段请求
+
+export type ByteRange = {
+  start: number;
+  end: number;
+};
+
+// 下载时使用的 Content-Disposition，文件名按 RFC 5987 编码
+export function getAttachmentDisposition(name: string): string {
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+// 根据文件大小和修改时间生成 ETag，文件被修改后随之改变
+export function getEntityTag(stat: Stats): string {
+  return `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+}
+
+// 判断客户端缓存是否仍然有效（If-None-Match 优先于 If-Modified-Since）
+export function isNotModified(request: NextRequest, etag: string, mtime: Date): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(',')
+      .map(tag => tag.trim().replace(/^W\//, ''))
+      .some(tag => tag === '*' || tag === etag);
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP 日期只精确到秒
+    return !isNaN(since) && Math.floor(mtime.getTime() / 1000) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
+
+// 解析 Range 请求头
+// 返回 null 表示忽略 Range（没有或不支持，如多段范围），'unsatisfiable' 表示范围超出文件
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // 后缀范围：最后 N 个字节
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+// If-Range 不匹配时（文件已变化）应忽略 Range，返回完整内容
+function isRangeValid(request: NextRequest, etag: string, mtime: Date): boolean {
+  const ifRange = request.headers.get('if-range');
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag;
+  }
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && Math.floor(mtime.getTime() / 1000) === Math.floor(date / 1000);
+}
+
+// 以流的形式返回磁盘文件，支持条件请求和 Range 请求
+export function sendFile(
+  request: NextRequest,
+  absolutePath: string,
+  stat: Stats,
+  contentType: string,
+  extraHeaders: Record<string, string> = {}
+): NextResponse {
+  const etag = getEntityTag(stat);
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Accept-Ranges': 'bytes',
+    ETag: etag,
+    'Last-Modified': stat.mtime.toUTCString(),
+    // 每次都向服务器确认，文件修改后能立即看到新内容
+    'Cache-Control': 'public, no-cache',
+    ...extraHeaders,
+  };
+
+  if (isNotModified(request, etag, stat.mtime)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const range = isRangeValid(request, etag, stat.mtime)
+    ? parseRange(request.headers.get('range'), stat.size)
+    : null;
+
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${stat.size}` },
+    });
+  }
+
+  const start = range ? range.start : 0;
+  const end = range ? range.end : stat.size - 1;
+  headers['Content-Length'] = String(Math.max(end - start + 1, 0));
+  if (range) {
+    headers['Content-Range'] = `bytes ${start}-${end}/${stat.size}`;
+  }
+
+  const status = range ? 206 : 200;
+  if (request.method === 'HEAD' || stat.size === 0) {
+    return new NextResponse(null, { status, headers });
+  }
+
+  const stream = createReadStream(absolutePath, { start, end });
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, { status, headers });
+}
@@ -0,0 +1,122 @@
+import path from 'path';
+import sharp from 'sharp';
+import { FileOpError } from './file-ops';
+import { openImage } from './image-decoder';
+import { isImageExt } from './image-formats';
+import { resolveExportSource } from './image-export';
+import { readArchiveEntry, resolveArchiveFile } from './zip-archive';
+
+// 两张图片的像素差异：按 EXIF 方向摆正、合成到白色背景后逐像素比较 RGB。
+// 尺寸不同时把 B 缩放到 A 的尺寸（如比较原图和导出的缩小版本），超大的图片先缩小到 MAX_COMPARE_EDGE 以内。
+
+export type CompareStats = {
+  // 参与比较的尺寸（A 的尺寸，超大时为缩小后的尺寸）
+  width: number;
+  height: number;
+  // 所有像素各通道差值的平均值（0-255）
+  meanAbsDiff: number;
+  // 任一通道差值超过阈值的像素比例（0-100）
+  changedPercent: number;
+  // 最大通道差值（0-255）
+  maxDiff: number;
+  threshold: number;
+  // B 的尺寸与 A 不同，已缩放到 A 的尺寸
+  resized: boolean;
+  // 图片过大，缩小后比较
+  downscaled: boolean;
+};
+
+export type CompareResult = {
+  stats: CompareStats;
+  // 差异图（PNG）：A 的灰度图上用红色标出差异，差异越大越亮
+  diff?: Buffer;
+};
+
+export const DEFAULT_DIFF_THRESHOLD = 10;
+// 比较时的最大边长
+const MAX_COMPARE_EDGE = 4096;
+// 差异图中红色亮度的放大倍数，微小的差异也能看清
+const DIFF_AMPLIFY = 4;
+
+async function decodeRgb(image: sharp.Sharp, width: number, height: number): Promise<Buffer> {
+  return image
+    .resize(width, height, { fit: 'fill' })
+    .flatten({ background: '#ffffff' })
+    .toColourspace('srgb')
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+}
+
+// 解析要比较的图片：图库中的文件或压缩包内的条目，返回打开图片的函数（在图片处理任务池中调用）
+export async function resolveCompareSource(input: string | null): Promise<() => Promise<sharp.Sharp>> {
+  const archiveFile = input ? await resolveArchiveFile(input) : null;
+  if (archiveFile) {
+    const { location, entry } = archiveFile;
+    if (!isImageExt(path.posix.extname(entry.name).toLowerCase())) {
+      throw new FileOpError(`Not a supported image: ${path.posix.basename(entry.name)}`, 415, 'UNSUPPORTED_FORMAT');
+    }
+    return async () => sharp(await readArchiveEntry(location, entry));
+  }
+  const absolutePath = await resolveExportSource(input);
+  return () => openImage(absolutePath);
+}
+
+// 比较两张图片；withDiff 为 false 时只计算统计数据，不生成差异图
+export async function compareImages(
+  sourceA: sharp.Sharp,
+  sourceB: sharp.Sharp,
+  threshold: number,
+  withDiff: boolean
+): Promise<CompareResult> {
+  const imageA = sourceA.autoOrient();
+  const imageB = sourceB.autoOrient();
+  const [metaA, metaB] = await Promise.all([imageA.metadata(), imageB.metadata()]);
+  const sizeA = { width: metaA.autoOrient?.width ?? metaA.width ?? 0, height: metaA.autoOrient?.height ?? metaA.height ?? 0 };
+  const sizeB = { width: metaB.autoOrient?.width ?? metaB.width ?? 0, height: metaB.autoOrient?.height ?? metaB.height ?? 0 };
+  if (!sizeA.width || !sizeA.height || !sizeB.width || !sizeB.height) {
+    throw new FileOpError('Cannot read image dimensions', 415, 'UNSUPPORTED_FORMAT');
+  }
+
+  const ratio = Math.min(1, MAX_COMPARE_EDGE / Math.max(sizeA.width, sizeA.height));
+  const width = Math.max(1, Math.round(sizeA.width * ratio));
+  const height = Math.max(1, Math.round(sizeA.height * ratio));
+  const [a, b] = await Promise.all([decodeRgb(imageA, width, height), decodeRgb(imageB, width, height)]);
+
+  const pixels = width * height;
+  const output = withDiff ? Buffer.alloc(pixels * 3) : null;
+  let total = 0;
+  let changed = 0;
+  let maxDiff = 0;
+  for (let i = 0, p = 0; p < pixels; p++, i += 3) {
+    const dr = Math.abs(a[i] - b[i]);
+    const dg = Math.abs(a[i + 1] - b[i + 1]);
+    const db = Math.abs(a[i + 2] - b[i + 2]);
+    const d = Math.max(dr, dg, db);
+    total += dr + dg + db;
+    if (d > maxDiff) maxDiff = d;
+    if (d > threshold) changed++;
+    if (output) {
+      // 背景为变暗的 A 灰度图，超过阈值的像素按差异大小标红
+      const grey = Math.round((a[i] * 0.299 + a[i + 1] * 0.587 + a[i + 2] * 0.114) / 3);
+      output[i] = d > threshold ? Math.min(255, grey + d * DIFF_AMPLIFY) : grey;
+      output[i + 1] = grey;
+      output[i + 2] = grey;
+    }
+  }
+
+  const stats: CompareStats = {
+    width,
+    height,
+    meanAbsDiff: Math.round(total / (pixels * 3) * 100) / 100,
+    changedPercent: Math.round(changed / pixels * 10000) / 100,
+    maxDiff,
+    threshold,
+    resized: sizeA.width !== sizeB.width || sizeA.height !== sizeB.height,
+    downscaled: ratio < 1,
+  };
+  if (!output) return { stats };
+
+  const diff = await sharp(output, { raw: { width, height, channels: 3 } }).png().toBuffer();
+  return { stats, diff };
+}
@@ -0,0 +1,146 @@
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import sharp from 'sharp';
+import { isRawExt } from '@/lib/image-formats';
+import { extractRawPreview } from '@/lib/raw-preview';
+
+// 服务端图片解码：为 sharp 无法直接读取的格式提供替代的输入
+// - RAW：使用内嵌的 JPEG 预览图
+// - HEIC/HEIF：预编译的 libvips 只带 AVIF 解码器，HEVC 编码的图片改用 heic-decode（wasm）解码
+// - JPEG XL：需要 libvips 编译时带 libjxl
+// 返回的图片保留内嵌的 ICC 配置文件，后续处理时 sharp 据此转换为 sRGB（或原样保留配置文件）
+
+// 无法解码的图片格式，API 返回 415
+export class UnsupportedImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedImageError';
+  }
+}
+
+// 判断当前 libvips 是否能解码某个扩展名
+function sharpSupportsSuffix(ext: string): boolean {
+  return Object.values(sharp.format).some(format =>
+    format.input.file && (format.input.fileSuffix ?? []).includes(ext)
+  );
+}
+
+// 按 EXIF 方向值旋转/翻转
+function applyOrientation(image: sharp.Sharp, orientation: number): sharp.Sharp {
+  switch (orientation) {
+    case 2: return image.flop();
+    case 3: return image.rotate(180);
+    case 4: return image.flip();
+    case 5: return image.rotate(90).flop();
+    case 6: return image.rotate(90);
+    case 7: return image.rotate(270).flop();
+    case 8: return image.rotate(270);
+    default: return image;
+  }
+}
+
+// 打开图片的选项
+export type OpenImageOptions = {
+  // 按拍摄原样：不按 EXIF 方向摆正（RAW 预览图），忽略内嵌的 ICC 配置文件，像素值原样当作 sRGB
+  asShot?: boolean;
+};
+
+// 遍历 ISO BMFF（HEIF 容器）中 [start, end) 范围内的盒子
+function* iterateBoxes(buffer: Buffer, start: number, end: number): Generator<{ type: string; start: number; end: number }> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) return;
+    yield { type: buffer.toString('latin1', offset + 4, offset + 8), start: offset + headerSize, end: offset + size };
+    offset += size;
+  }
+}
+
+function findBox(buffer: Buffer, start: number, end: number, type: string) {
+  for (const box of iterateBoxes(buffer, start, end)) {
+    if (box.type === type) return box;
+  }
+  return null;
+}
+
+// 读取 HEIF 内嵌的 ICC 配置文件（meta/iprp/ipco 中的 colr 属性）。
+// iPhone 的照片是 Display P3，heic-decode 只输出像素，不读取配置文件就会按 sRGB 显示、颜色发灰；
+// nclx 类型的 colr 只有色彩原色编号，按 sRGB 处理
+function readHeifIccProfile(buffer: Buffer): Buffer | null {
+  const meta = findBox(buffer, 0, buffer.length, 'meta');
+  if (!meta) return null;
+  // meta 是 FullBox，子盒子前有 4 字节的版本和标志
+  const iprp = findBox(buffer, meta.start + 4, meta.end, 'iprp');
+  const ipco = iprp && findBox(buffer, iprp.start, iprp.end, 'ipco');
+  if (!ipco) return null;
+  for (const box of iterateBoxes(buffer, ipco.start, ipco.end)) {
+    if (box.type !== 'colr' || box.end - box.start <= 4) continue;
+    const colourType = buffer.toString('latin1', box.start, box.start + 4);
+    if (colourType === 'prof' || colourType === 'rICC') {
+      return buffer.subarray(box.start + 4, box.end);
+    }
+  }
+  return null;
+}
+
+// 在 PNG 的 IHDR 之后插入 iCCP 块（内嵌 ICC 配置文件）
+function embedPngIccProfile(png: Buffer, profile: Buffer): Buffer {
+  // 配置文件名称、0 结尾、压缩方式（0 = deflate）、压缩后的配置文件
+  const data = Buffer.concat([Buffer.from('icc\0\0', 'latin1'), zlib.deflateSync(profile)]);
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write('iCCP', 4, 'latin1');
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(zlib.crc32(chunk.subarray(4, data.length + 8)), data.length + 8);
+  // 8 字节文件签名 + IHDR 块（长度、类型、13 字节数据、CRC）
+  const ihdrEnd = 8 + 25;
+  return Buffer.concat([png.subarray(0, ihdrEnd), chunk, png.subarray(ihdrEnd)]);
+}
+
+async function decodeHeic(absolutePath: string, asShot: boolean): Promise<sharp.Sharp> {
+  const { default: decode } = await import('heic-decode');
+  const buffer = await fs.readFile(absolutePath);
+  const { width, height, data } = await decode({ buffer });
+  const image = sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+    raw: { width, height, channels: 4 },
+  });
+  const profile = asShot ? null : readHeifIccProfile(buffer);
+  if (!profile) return image;
+  // sharp 的原始像素输入无法附带配置文件，先存为不压缩的 PNG 并插入 iCCP 块再重新读取
+  const png = await image.png({ compressionLevel: 0 }).toBuffer();
+  return sharp(embedPngIccProfile(png, profile));
+}
+
+// 打开图片，返回可继续处理（缩放、编码）的 sharp 实例
+export async function openImage(absolutePath: string, options: OpenImageOptions = {}): Promise<sharp.Sharp> {
+  const { asShot = false } = options;
+  const ext = path.extname(absolutePath).toLowerCase();
+
+  if (isRawExt(ext)) {
+    const preview = await extractRawPreview(absolutePath);
+    if (!preview) {
+      throw new UnsupportedImageError('No embedded preview found in RAW file');
+    }
+    const image = sharp(preview.data, { ignoreIcc: asShot });
+    return asShot ? image : applyOrientation(image, preview.orientation);
+  }
+
+  if ((ext === '.heic' || ext === '.heif') && !sharpSupportsSuffix(ext)) {
+    return decodeHeic(absolutePath, asShot);
+  }
+
+  if (ext === '.jxl' && !sharpSupportsSuffix('.jxl')) {
+    throw new UnsupportedImageError('JPEG XL decoding requires libvips built with libjxl');
+  }
+
+  return sharp(absolutePath, { ignoreIcc: asShot });
+}
@@ -0,0 +1,215 @@
+import fs from 'fs/promises';
+import path from 'path';
+import exifReader from 'exif-reader';
+import type sharp from 'sharp';
+import { resolveLibraryPath, toClientPath } from './library';
+import { FileOpError, resolveDirectory } from './file-ops';
+import { isImageExt } from './image-formats';
+import { openImage } from './image-decoder';
+import { getImagePool } from './image-pool';
+import type { ZipEntry } from './zip-writer';
+import { splitArchivePath } from './zip-archive';
+
+// 导出/转换：缩放到指定尺寸内，转换为 JPEG/WebP/AVIF/PNG，按策略保留或去除元数据
+// 使用与缩略图相同的 sharp 处理流程（openImage 支持 RAW、HEIC 等格式）。
+
+export type ExportFormat = 'jpeg' | 'webp' | 'avif' | 'png';
+
+// keep：保留全部元数据；strip-gps：去除 GPS 位置；strip：去除全部元数据
+export type MetadataPolicy = 'keep' | 'strip-gps' | 'strip';
+
+export type ExportOptions = {
+  // 最大宽度/高度（像素），按比例缩小到范围内，不放大
+  maxWidth?: number;
+  maxHeight?: number;
+  format: ExportFormat;
+  // 1-100，PNG 忽略
+  quality: number;
+  metadata: MetadataPolicy;
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, { ext: string; contentType: string }> = {
+  jpeg: { ext: '.jpg', contentType: 'image/jpeg' },
+  webp: { ext: '.webp', contentType: 'image/webp' },
+  avif: { ext: '.avif', contentType: 'image/avif' },
+  png: { ext: '.png', contentType: 'image/png' },
+};
+
+const DEFAULT_QUALITY = 85;
+// 尺寸上限，避免误输入导致超大的输出
+const MAX_DIMENSION = 16384;
+
+function parseDimension(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_DIMENSION) {
+    throw new FileOpError(`${name} must be an integer between 1 and ${MAX_DIMENSION}`);
+  }
+  return value;
+}
+
+export function parseExportOptions(body: Record<string, unknown>): ExportOptions {
+  const format = body.format ?? 'jpeg';
+  if (typeof format !== 'string' || !(format in EXPORT_FORMATS)) {
+    throw new FileOpError(`format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  }
+  const quality = body.quality ?? DEFAULT_QUALITY;
+  if (typeof quality !== 'number' || !Number.isInteger(quality) || quality < 1 || quality > 100) {
+    throw new FileOpError('quality must be an integer between 1 and 100');
+  }
+  const metadata = body.metadata ?? 'keep';
+  if (metadata !== 'keep' && metadata !== 'strip-gps' && metadata !== 'strip') {
+    throw new FileOpError('metadata must be "keep", "strip-gps" or "strip"');
+  }
+  return {
+    maxWidth: parseDimension(body.maxWidth, 'maxWidth'),
+    maxHeight: parseDimension(body.maxHeight, 'maxHeight'),
+    format: format as ExportFormat,
+    quality,
+    metadata,
+  };
+}
+
+// EXIF 中的值转换为 libvips 接受的字符串形式
+function formatExifValue(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (value instanceof Date) {
+    // exif-reader 把 EXIF 时间（无时区）按 UTC 解析
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getUTCFullYear()}:${pad(value.getUTCMonth() + 1)}:${pad(value.getUTCDate())} `
+      + `${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}`;
+  }
+  if (Array.isArray(value) && value.every(v => typeof v === 'number')) return value.join(' ');
+  return null;
+}
+
+// 由其他字段决定或由 libvips 重新生成的标签
+const SKIPPED_EXIF_TAGS = new Set(['ExifTag', 'GPSTag', 'InteroperabilityTag', 'Orientation']);
+
+function toExifFields(section: Record<string, unknown> | undefined): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(section ?? {})) {
+    if (SKIPPED_EXIF_TAGS.has(key)) continue;
+    const formatted = formatExifValue(value);
+    if (formatted !== null) fields[key] = formatted;
+  }
+  return fields;
+}
+
+// 去除 GPS 后的 EXIF：sharp 不能单独删除某个标签，只能用主 IFD 和 Exif IFD 中的字段重新生成
+// 二进制字段（如 MakerNote，其中也可能包含位置信息）一并去除
+function exifWithoutGps(exif: Buffer | undefined): sharp.Exif {
+  if (!exif) return {};
+  let parsed: ReturnType<typeof exifReader>;
+  try {
+    parsed = exifReader(exif);
+  } catch {
+    return {};
+  }
+  return {
+    IFD0: toExifFields(parsed.Image as Record<string, unknown>),
+    IFD2: toExifFields(parsed.Photo as Record<string, unknown>),
+  };
+}
+
+// 生成导出的图片数据（在图片处理任务池中按批量任务排队，signal 中止时丢弃排队中的任务）
+export function renderExport(absolutePath: string, options: ExportOptions, signal?: AbortSignal): Promise<Buffer> {
+  return getImagePool().run('background', async () => {
+    let image = (await openImage(absolutePath)).autoOrient();
+    if (options.maxWidth || options.maxHeight) {
+      image = image.resize(options.maxWidth, options.maxHeight, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      });
+    }
+
+    // sharp 默认去除全部元数据
+    if (options.metadata === 'keep') {
+      image = image.keepMetadata().withMetadata({ orientation: 1 });
+    } else if (options.metadata === 'strip-gps') {
+      const { exif } = await image.metadata();
+      image = image.keepIccProfile().withExif(exifWithoutGps(exif));
+    }
+
+    const { format, quality } = options;
+    return image
+      .toFormat(format, format === 'png' ? undefined : { quality })
+      .toBuffer();
+  }, signal);
+}
+
+// 导出文件名：原文件名换成新格式的扩展名
+export function getExportName(absolutePath: string, format: ExportFormat): string {
+  return path.basename(absolutePath, path.extname(absolutePath)) + EXPORT_FORMATS[format].ext;
+}
+
+// 打包下载多张图片时的压缩包名称：所在目录名-export.zip
+export function getExportArchiveName(sources: string[]): string {
+  return `${path.basename(path.dirname(sources[0])) || 'export'}-export.zip`;
+}
+
+// 打包下载的条目：逐张生成，生成一张发送一张；文件名相同时加序号（name.jpg、name-2.jpg ...）
+export async function* renderExportEntries(sources: string[], options: ExportOptions, signal?: AbortSignal): AsyncGenerator<ZipEntry> {
+  const used = new Set<string>();
+  for (const source of sources) {
+    const data = await renderExport(source, options, signal);
+    const name = getExportName(source, options.format);
+    const ext = path.extname(name);
+    let unique = name;
+    for (let i = 2; used.has(unique.toLowerCase()); i++) {
+      unique = `${path.basename(name, ext)}-${i}${ext}`;
+    }
+    used.add(unique.toLowerCase());
+    yield { name: unique, absolutePath: null, data, mtime: new Date(), mode: 0o100644 };
+  }
+}
+
+// 解析要导出的图片
+export async function resolveExportSource(input: unknown): Promise<string> {
+  if (typeof input !== 'string' || input === '') {
+    throw new FileOpError('Missing path');
+  }
+  if (splitArchivePath(input)) {
+    throw new FileOpError('Archive entries cannot be exported');
+  }
+  const { absolutePath } = await resolveLibraryPath(input);
+  if (!isImageExt(path.extname(absolutePath))) {
+    throw new FileOpError(`Not a supported image: ${path.basename(absolutePath)}`, 415, 'UNSUPPORTED_FORMAT');
+  }
+  try {
+    const stat = await fs.stat(absolutePath);
+    if (stat.isFile()) return absolutePath;
+  } catch {
+    // 下面统一报错
+  }
+  throw new FileOpError(`Not found: ${input}`, 404, 'NOT_FOUND');
+}
+
+// 目标目录中不冲突的文件名：name.jpg、name-2.jpg ...
+async function findFreePath(directory: string, name: string): Promise<string> {
+  const ext = path.extname(name);
+  const base = path.basename(name, ext);
+  for (let i = 1; ; i++) {
+    const candidate = path.join(directory, `${base}${i > 1 ? `-${i}` : ''}${ext}`);
+    try {
+      await fs.lstat(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+}
+
+// 导出到图库中的目录，返回新文件路径列表
+export async function exportToDirectory(inputs: unknown[], destination: unknown, options: ExportOptions, signal?: AbortSignal): Promise<string[]> {
+  const sources = await Promise.all(inputs.map(resolveExportSource));
+  const { absolutePath: directory } = await resolveDirectory(destination);
+
+  const exported: string[] = [];
+  for (const source of sources) {
+    const output = await renderExport(source, options, signal);
+    const target = await findFreePath(directory, getExportName(source, options.format));
+    await fs.writeFile(target, output, { flag: 'wx' });
+    exported.push(toClientPath(target));
+  }
+  return exported;
+}
@@ -0,0 +1,92 @@
+// 图片格式分类，服务端和前端共用
+
+// 浏览器可以直接显示的格式
+export const BROWSER_IMAGE_EXTS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg', '.ico', '.avif'];
+
+// 需要服务端转码后才能在浏览器中显示的格式（sharp/libvips 解码）
+export const TRANSCODE_IMAGE_EXTS = ['.tiff', '.tif', '.heic', '.heif', '.jxl'];
+
+// 相机 RAW 格式：提取内嵌的 JPEG 预览图
+export const RAW_IMAGE_EXTS = ['.cr2', '.nef', '.nrw', '.arw', '.srf', '.sr2', '.dng', '.orf', '.rw2', '.pef', '.srw', '.raf'];
+
+export const IMAGE_EXTS = [...BROWSER_IMAGE_EXTS, ...TRANSCODE_IMAGE_EXTS, ...RAW_IMAGE_EXTS];
+
+// 可以旋转/翻转/裁剪并写回的格式
+export const TRANSFORMABLE_IMAGE_EXTS = ['.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff', '.avif', '.gif'];
+
+// 可能包含动画的格式（GIF、动态 WebP、APNG）
+export const ANIMATED_IMAGE_EXTS = ['.gif', '.webp', '.png'];
+
+// 视频格式：浏览器内联播放，缩略图为封面帧
+export const VIDEO_EXTS = ['.mp4', '.m4v', '.mov', '.webm', '.ogv', '.mkv'];
+
+// 可以作为目录浏览的压缩包（CBZ 为漫画常用的 ZIP）
+export const ARCHIVE_EXTS = ['.zip', '.cbz'];
+
+// 在查看器中打开的文件（图片和视频）
+export const MEDIA_EXTS = [...IMAGE_EXTS, ...VIDEO_EXTS];
+
+export function isImageExt(ext: string): boolean {
+  return IMAGE_EXTS.includes(ext.toLowerCase());
+}
+
+export function isVideoExt(ext: string): boolean {
+  return VIDEO_EXTS.includes(ext.toLowerCase());
+}
+
+export function isMediaExt(ext: string): boolean {
+  return MEDIA_EXTS.includes(ext.toLowerCase());
+}
+
+export function isAnimatedImageExt(ext: string): boolean {
+  return ANIMATED_IMAGE_EXTS.includes(ext.toLowerCase());
+}
+
+export function isArchiveExt(ext: string): boolean {
+  return ARCHIVE_EXTS.includes(ext.toLowerCase());
+}
+
+export function isTransformableExt(ext: string): boolean {
+  return TRANSFORMABLE_IMAGE_EXTS.includes(ext.toLowerCase());
+}
+
+export function isRawExt(ext: string): boolean {
+  return RAW_IMAGE_EXTS.includes(ext.toLowerCase());
+}
+
+// 是否需要转码为浏览器可显示的格式
+export function needsTranscode(ext: string): boolean {
+  const lower = ext.toLowerCase();
+  return TRANSCODE_IMAGE_EXTS.includes(lower) || RAW_IMAGE_EXTS.includes(lower);
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.tiff': 'image/tiff',
+  '.tif': 'image/tiff',
+  '.avif': 'image/avif',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.jxl': 'image/jxl',
+  '.dng': 'image/x-adobe-dng',
+  '.cr2': 'image/x-canon-cr2',
+  '.nef': 'image/x-nikon-nef',
+  '.arw': 'image/x-sony-arw',
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.ogv': 'video/ogg',
+  '.mkv': 'video/x-matroska',
+};
+
+export function getContentType(ext: string): string {
+  return CONTENT_TYPES[ext.toLowerCase()] || 'application/octet-stream';
+}
@@ -0,0 +1,236 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import { isRawExt } from '@/lib/image-formats';
+import { openImage } from '@/lib/image-decoder';
+import { getImagePool } from '@/lib/image-pool';
+import { extractRawPreview } from '@/lib/raw-preview';
+
+// 图片元数据：文件信息 + sharp 读取的图像信息 + 解析后的 EXIF
+
+export type GpsPosition = {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+};
+
+export type ExifSummary = {
+  make: string | null;
+  model: string | null;
+  lens: string | null;
+  // 曝光时间（秒）
+  exposureTime: number | null;
+  fNumber: number | null;
+  iso: number | null;
+  // 焦距（毫米）
+  focalLength: number | null;
+  focalLength35mm: number | null;
+  // 拍摄时间，相机本地时间，格式 YYYY-MM-DD HH:mm:ss
+  dateTimeOriginal: string | null;
+  gps: GpsPosition | null;
+};
+
+export type ImageMetadata = {
+  name: string;
+  size: number;
+  mtime: string;
+  width: number | null;
+  height: number | null;
+  format: string | null;
+  colorSpace: string | null;
+  // 每个通道的位深
+  bitDepth: number | null;
+  channels: number | null;
+  hasAlpha: boolean;
+  orientation: number | null;
+  hasProfile: boolean;
+  exif: ExifSummary | null;
+  // XMP 中 GPano:ProjectionType 的值（如 equirectangular）
+  projectionType: string | null;
+  // 是否为 360° 全景（等距柱状投影），根据 GPano 标记或 2:1 宽高比判断
+  isPanorama: boolean;
+};
+
+// 从 RAW 文件开头读取 EXIF 的字节数，IFD0 和 EXIF IFD 通常都在这个范围内
+const RAW_EXIF_READ_SIZE = 512 * 1024;
+
+// sharp 的像素格式到位深的映射
+const DEPTH_BITS: Record<string, number> = {
+  uchar: 8,
+  char: 8,
+  ushort: 16,
+  short: 16,
+  uint: 32,
+  int: 32,
+  float: 32,
+  double: 64,
+};
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// exif-reader 把 EXIF 时间按 UTC 解析，这里按原样还原为相机记录的本地时间
+function formatExifDate(value: Date | string | undefined): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3');
+  if (isNaN(value.getTime())) return null;
+  return `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())} ` +
+    `${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}`;
+}
+
+// 度分秒转为十进制度数，南纬/西经为负
+function toDecimalDegrees(dms: number[] | undefined, ref: string | undefined): number | null {
+  if (!dms || dms.length === 0) return null;
+  const [deg = 0, min = 0, sec = 0] = dms;
+  const value = deg + min / 60 + sec / 3600;
+  return ref === 'S' || ref === 'W' ? -value : value;
+}
+
+// 从 XMP 中读取 GPano:ProjectionType，属性和元素两种写法都支持
+function parseProjectionType(xmp: Buffer | undefined): string | null {
+  if (!xmp) return null;
+  const text = xmp.toString('utf-8');
+  const match = /GPano:ProjectionType(?:="([^"]*)"|>([^<]*)<)/.exec(text);
+  return match ? (match[1] ?? match[2]).trim().toLowerCase() : null;
+}
+
+// 宽高比为 2:1（允许 1% 误差）的图片视为等距柱状全景
+function isEquirectangularRatio(width: number | undefined, height: number | undefined): boolean {
+  if (!width || !height) return false;
+  return Math.abs(width / height - 2) < 0.02;
+}
+
+function parseExif(buffer: Buffer): ExifSummary | null {
+  let exif: ReturnType<typeof exifReader>;
+  try {
+    exif = exifReader(buffer);
+  } catch {
+    return null;
+  }
+
+  const image = exif.Image ?? {};
+  const photo = exif.Photo ?? {};
+  const gpsInfo = exif.GPSInfo ?? {};
+
+  const latitude = toDecimalDegrees(gpsInfo.GPSLatitude, gpsInfo.GPSLatitudeRef);
+  const longitude = toDecimalDegrees(gpsInfo.GPSLongitude, gpsInfo.GPSLongitudeRef);
+  let altitude: number | null = null;
+  if (typeof gpsInfo.GPSAltitude === 'number') {
+    // GPSAltitudeRef 为 1 表示海平面以下
+    altitude = gpsInfo.GPSAltitudeRef === 1 ? -gpsInfo.GPSAltitude : gpsInfo.GPSAltitude;
+  }
+
+  const lens = [photo.LensMake, photo.LensModel]
+    .filter((part): part is string => typeof part === 'string' && part.trim().length > 0)
+    .map(part => part.trim());
+
+  return {
+    make: image.Make?.trim() || null,
+    model: image.Model?.trim() || null,
+    // 镜头型号通常已包含厂商名
+    lens: lens.length === 0 ? null : lens.length > 1 && lens[1].startsWith(lens[0]) ? lens[1] : lens.join(' '),
+    exposureTime: photo.ExposureTime ?? null,
+    fNumber: photo.FNumber ?? null,
+    iso: photo.ISOSpeedRatings ?? null,
+    focalLength: photo.FocalLength ?? null,
+    focalLength35mm: photo.FocalLengthIn35mmFilm ?? null,
+    dateTimeOriginal: formatExifDate(photo.DateTimeOriginal ?? image.DateTime),
+    gps: latitude !== null && longitude !== null ? { latitude, longitude, altitude } : null,
+  };
+}
+
+// 只有文件信息的元数据
+function createFileMetadata(name: string, size: number, mtime: Date): ImageMetadata {
+  return {
+    name,
+    size,
+    mtime: mtime.toISOString(),
+    width: null,
+    height: null,
+    format: null,
+    colorSpace: null,
+    bitDepth: null,
+    channels: null,
+    hasAlpha: false,
+    orientation: null,
+    hasProfile: false,
+    exif: null,
+    projectionType: null,
+    isPanorama: false,
+  };
+}
+
+// 合并 sharp 读取的图像信息
+function withImageInfo(result: ImageMetadata, metadata: sharp.Metadata, exifBuffer: Buffer | undefined, format: string | null): ImageMetadata {
+  const projectionType = parseProjectionType(metadata.xmp);
+
+  return {
+    ...result,
+    width: metadata.width ?? null,
+    height: metadata.height ?? null,
+    format,
+    colorSpace: metadata.space ?? null,
+    bitDepth: metadata.depth ? DEPTH_BITS[metadata.depth] ?? null : null,
+    channels: metadata.channels ?? null,
+    hasAlpha: metadata.hasAlpha ?? false,
+    orientation: metadata.orientation ?? null,
+    hasProfile: metadata.hasProfile ?? false,
+    exif: exifBuffer ? parseExif(exifBuffer) : null,
+    projectionType,
+    isPanorama: projectionType !== null
+      ? projectionType === 'equirectangular'
+      : isEquirectangularRatio(metadata.width, metadata.height),
+  };
+}
+
+// 读取图片元数据；sharp 无法识别的格式只返回文件信息。
+// sharp 读取在图片处理任务池中与查看器的大图同等优先（信息面板随查看器打开），signal 中止时丢弃排队中的任务
+export async function readImageMetadata(absolutePath: string, signal?: AbortSignal): Promise<ImageMetadata> {
+  const stat = await fs.stat(absolutePath);
+  const result = createFileMetadata(path.basename(absolutePath), stat.size, stat.mtime);
+
+  const ext = path.extname(absolutePath).toLowerCase();
+  const isRaw = isRawExt(ext);
+
+  const metadata = await getImagePool().run('viewer', async (): Promise<sharp.Metadata | null> => {
+    try {
+      if (isRaw) {
+        // RAW 读取内嵌预览图的信息，方向以 RAW 文件中记录的为准
+        const preview = await extractRawPreview(absolutePath);
+        if (!preview) return null;
+        return { ...await sharp(preview.data).metadata(), orientation: preview.orientation };
+      }
+      // 先让 libvips 直接读取文件头，失败时（如 HEVC 编码的 HEIC）再尝试替代解码
+      return await sharp(absolutePath).metadata()
+        .catch(async () => (await openImage(absolutePath)).metadata());
+    } catch {
+      return null;
+    }
+  }, signal);
+  if (!metadata) return result;
+
+  // 预览图通常不带 EXIF，RAW 文件本身是 TIFF 结构，直接从文件开头解析
+  let exifBuffer = metadata.exif;
+  if (isRaw && !exifBuffer) {
+    const handle = await fs.open(absolutePath, 'r');
+    try {
+      const buffer = Buffer.alloc(Math.min(stat.size, RAW_EXIF_READ_SIZE));
+      await handle.read(buffer, 0, buffer.length, 0);
+      exifBuffer = buffer;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  return withImageInfo(result, metadata, exifBuffer, isRaw ? ext.slice(1) : metadata.format ?? null);
+}
+
+// 读取内存中图片的元数据（压缩包内的条目），只支持 sharp 能直接识别的格式
+export async function readImageBufferMetadata(name: string, buffer: Buffer, mtime: Date, signal?: AbortSignal): Promise<ImageMetadata> {
+  const result = createFileMetadata(name, buffer.length, mtime);
+  const metadata = await getImagePool().run('viewer', () => sharp(buffer).metadata().catch(() => null), signal);
+  if (!metadata) return result;
+  return withImageInfo(result, metadata, metadata.exif, metadata.format ?? null);
+}
@@ -0,0 +1,207 @@
+import { NextResponse } from 'next/server';
+import { getConfig } from './config';
+
+// 图片处理任务池：限制同时运行的 sharp 处理数量，排队的任务按优先级执行。
+// 打开大目录时几百个缩略图请求同时到达，不加限制会占满 CPU 和内存，用户正在等的大图反而最慢；
+// 查看器中的操作（转码版本、对比、编辑、图片信息）优先于网格缩略图，批量任务（导出、查找重复）最后执行。
+// 排队中的任务在请求断开后直接丢弃；已开始的 sharp 处理无法中断，会继续完成。
+
+export const IMAGE_TASK_PRIORITIES = ['viewer', 'thumbnail', 'background'] as const;
+export type ImageTaskPriority = typeof IMAGE_TASK_PRIORITIES[number];
+
+// 请求在任务开始前断开
+export class ImageTaskAbortedError extends Error {
+  constructor() {
+    super('Request aborted before image processing started');
+    this.name = 'ImageTaskAbortedError';
+  }
+}
+
+// 客户端已断开，响应不会被读取；使用 nginx 的 499 状态码便于在日志中区分
+export function imageTaskAbortedResponse(): NextResponse {
+  return new NextResponse(null, { status: 499 });
+}
+
+type QueuedTask = {
+  start: () => void;
+  abort: () => void;
+};
+
+// 耗时统计（毫秒），基于最近 TIMING_SAMPLES 个任务
+export type TimingStats = {
+  avg: number;
+  p50: number;
+  p95: number;
+  max: number;
+};
+
+export type PriorityMetrics = {
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  // 排队期间请求断开而丢弃的任务
+  dropped: number;
+  // 排队等待时间
+  wait: TimingStats;
+  // 处理时间
+  run: TimingStats;
+};
+
+export type ImagePoolMetrics = {
+  concurrency: number;
+  running: number;
+  queued: number;
+  priorities: Record<ImageTaskPriority, PriorityMetrics>;
+};
+
+const TIMING_SAMPLES = 200;
+
+// 最近若干次耗时的环形缓冲区
+class TimingWindow {
+  private samples: number[] = [];
+  private next = 0;
+
+  add(ms: number) {
+    if (this.samples.length < TIMING_SAMPLES) {
+      this.samples.push(ms);
+    } else {
+      this.samples[this.next] = ms;
+      this.next = (this.next + 1) % TIMING_SAMPLES;
+    }
+  }
+
+  stats(): TimingStats {
+    if (this.samples.length === 0) return { avg: 0, p50: 0, p95: 0, max: 0 };
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * q))];
+    return {
+      avg: Math.round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length),
+      p50: at(0.5),
+      p95: at(0.95),
+      max: sorted[sorted.length - 1],
+    };
+  }
+}
+
+type PriorityState = {
+  queue: QueuedTask[];
+  running: number;
+  completed: number;
+  failed: number;
+  dropped: number;
+  wait: TimingWindow;
+  run: TimingWindow;
+};
+
+function createPriorityState(): PriorityState {
+  return {
+    queue: [],
+    running: 0,
+    completed: 0,
+    failed: 0,
+    dropped: 0,
+    wait: new TimingWindow(),
+    run: new TimingWindow(),
+  };
+}
+
+class ImagePool {
+  private states = Object.fromEntries(
+    IMAGE_TASK_PRIORITIES.map(priority => [priority, createPriorityState()])
+  ) as Record<ImageTaskPriority, PriorityState>;
+  private running = 0;
+
+  constructor(private readonly concurrency: number) {}
+
+  // 排队执行 work；signal 在开始前中止时丢弃任务并抛出 ImageTaskAbortedError
+  run<T>(priority: ImageTaskPriority, work: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const state = this.states[priority];
+    if (signal?.aborted) {
+      state.dropped++;
+      return Promise.reject(new ImageTaskAbortedError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const queuedAt = performance.now();
+      const task: QueuedTask = {
+        start: async () => {
+          signal?.removeEventListener('abort', onAbort);
+          const startedAt = performance.now();
+          state.wait.add(Math.round(startedAt - queuedAt));
+          state.running++;
+          this.running++;
+          try {
+            resolve(await work());
+            state.completed++;
+          } catch (error) {
+            reject(error);
+            state.failed++;
+          } finally {
+            state.run.add(Math.round(performance.now() - startedAt));
+            state.running--;
+            this.running--;
+            this.pump();
+          }
+        },
+        abort: () => {
+          state.dropped++;
+          reject(new ImageTaskAbortedError());
+        },
+      };
+      const onAbort = () => {
+        const index = state.queue.indexOf(task);
+        if (index === -1) return;
+        state.queue.splice(index, 1);
+        task.abort();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      state.queue.push(task);
+      this.pump();
+    });
+  }
+
+  metrics(): ImagePoolMetrics {
+    const priorities = Object.fromEntries(
+      IMAGE_TASK_PRIORITIES.map(priority => {
+        const state = this.states[priority];
+        return [priority, {
+          queued: state.queue.length,
+          running: state.running,
+          completed: state.completed,
+          failed: state.failed,
+          dropped: state.dropped,
+          wait: state.wait.stats(),
+          run: state.run.stats(),
+        }];
+      })
+    ) as Record<ImageTaskPriority, PriorityMetrics>;
+    return {
+      concurrency: this.concurrency,
+      running: this.running,
+      queued: IMAGE_TASK_PRIORITIES.reduce((total, priority) => total + this.states[priority].queue.length, 0),
+      priorities,
+    };
+  }
+
+  // 有空闲位置时按优先级取出排队的任务
+  private pump() {
+    while (this.running < this.concurrency) {
+      const state = IMAGE_TASK_PRIORITIES.map(priority => this.states[priority]).find(s => s.queue.length > 0);
+      if (!state) return;
+      state.queue.shift()!.start();
+    }
+  }
+}
+
+// 开发模式下模块会被重复加载，任务池挂在 globalThis 上保证全局唯一
+const globalForPool = globalThis as typeof globalThis & {
+  imagePool?: ImagePool;
+};
+
+export function getImagePool(): ImagePool {
+  if (!globalForPool.imagePool) {
+    globalForPool.imagePool = new ImagePool(getConfig().imageConcurrency);
+  }
+  return globalForPool.imagePool;
+}
@@ -0,0 +1,89 @@
+// 查看器的图片预加载（浏览器端）
+// 保留最近用到的若干张已解码的图片（LRU），浏览器直接从内存缓存显示；
+// 每次给出新的预加载列表时，不再需要的未完成请求立即取消，避免跳转后带宽被旧请求占满。
+
+type PrefetchEntry = {
+  image: HTMLImageElement;
+  state: 'queued' | 'loading' | 'loaded';
+};
+
+export class ImagePrefetcher {
+  // Map 的插入顺序即使用顺序，最前面的最久未用
+  private entries = new Map<string, PrefetchEntry>();
+  private queue: string[] = [];
+  private loading = new Set<PrefetchEntry>();
+
+  constructor(
+    // 最多保留的图片数（包括正在加载的）
+    private readonly capacity: number,
+    // 同时加载的图片数
+    private readonly concurrency: number
+  ) {}
+
+  // 按优先顺序给出需要预加载的地址：取消其余未完成的请求，按顺序加载
+  update(urls: string[]) {
+    const wanted = new Set(urls.slice(0, this.capacity));
+    for (const [url, entry] of this.entries) {
+      if (!wanted.has(url) && entry.state !== 'loaded') {
+        this.cancel(url, entry);
+      }
+    }
+
+    // 倒序移到末尾，最需要的图片最后被淘汰
+    for (const url of [...wanted].reverse()) {
+      const entry = this.entries.get(url);
+      this.entries.delete(url);
+      this.entries.set(url, entry ?? { image: new window.Image(), state: 'queued' });
+    }
+    for (const url of this.entries.keys()) {
+      if (this.entries.size <= this.capacity) break;
+      this.entries.delete(url);
+    }
+
+    this.queue = [...wanted].filter(url => this.entries.get(url)?.state === 'queued');
+    this.pump();
+  }
+
+  // 取消全部请求并释放已加载的图片
+  clear() {
+    for (const [url, entry] of this.entries) {
+      this.cancel(url, entry);
+    }
+    this.queue = [];
+  }
+
+  private pump() {
+    while (this.loading.size < this.concurrency && this.queue.length > 0) {
+      const url = this.queue.shift()!;
+      const entry = this.entries.get(url);
+      if (!entry || entry.state !== 'queued') continue;
+      entry.state = 'loading';
+      this.loading.add(entry);
+      entry.image.src = url;
+      entry.image.decode().then(
+        () => this.finish(url, entry, true),
+        () => this.finish(url, entry, false)
+      );
+    }
+  }
+
+  private finish(url: string, entry: PrefetchEntry, loaded: boolean) {
+    // 已取消的请求
+    if (!this.loading.delete(entry)) return;
+    if (loaded) {
+      entry.state = 'loaded';
+    } else if (this.entries.get(url) === entry) {
+      // 加载失败的图片不保留，下次需要时重试
+      this.entries.delete(url);
+    }
+    this.pump();
+  }
+
+  private cancel(url: string, entry: PrefetchEntry) {
+    this.entries.delete(url);
+    if (this.loading.delete(entry)) {
+      // 清空 src 会中止浏览器正在进行的请求
+      entry.image.src = '';
+    }
+  }
+}
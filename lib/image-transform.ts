@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { toClientPath } from './library';
+import { FileOpError, resolveExistingEntry } from './file-ops';
+import { getImagePool } from './image-pool';
+import { getThumbnailCache } from './thumbnail-cache';
+import {
+  composeOrientation,
+  readJpegOrientation,
+  setJpegOrientation,
+  type FlipAxis,
+  type Rotation,
+} from './jpeg-orientation';
+
+// 旋转、翻转和裁剪，结果写回磁盘
+// JPEG 只旋转/翻转时修改 EXIF 方向标签（无损）；其他情况用 sharp 按原格式重新编码。
+
+// 裁剪区域，相对于旋转/翻转后图像的比例（0-1）
+export type CropRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type TransformOptions = {
+  rotate?: Rotation;
+  flip?: FlipAxis;
+  crop?: CropRect;
+  // backup：覆盖原文件，第一次修改前的原文件保存为同目录下的隐藏备份；copy：另存为新文件
+  saveAs?: 'backup' | 'copy';
+};
+
+export type TransformResult = {
+  path: string;
+  // 是否只修改了 EXIF 方向（图像数据未重新编码）
+  lossless: boolean;
+  backup: string | null;
+};
+
+// 可以写回的格式（sharp 输出格式）
+const WRITABLE_FORMATS: Record<string, keyof sharp.FormatEnum> = {
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.png': 'png',
+  '.webp': 'webp',
+  '.tif': 'tiff',
+  '.tiff': 'tiff',
+  '.avif': 'avif',
+  '.gif': 'gif',
+};
+
+// 重新编码 JPEG 时的质量
+const JPEG_QUALITY = 95;
+
+function parseOptions(body: Record<string, unknown>): TransformOptions {
+  const options: TransformOptions = {};
+  if (body.rotate !== undefined) {
+    if (body.rotate !== 90 && body.rotate !== 180 && body.rotate !== 270) {
+      throw new FileOpError('rotate must be 90, 180 or 270');
+    }
+    options.rotate = body.rotate;
+  }
+  if (body.flip !== undefined) {
+    if (body.flip !== 'horizontal' && body.flip !== 'vertical') {
+      throw new FileOpError('flip must be "horizontal" or "vertical"');
+    }
+    options.flip = body.flip;
+  }
+  if (body.crop !== undefined) {
+    const crop = body.crop as Partial<CropRect> | null;
+    const values = crop ? [crop.x, crop.y, crop.width, crop.height] : [];
+    if (values.length !== 4 || !values.every(v => typeof v === 'number' && v >= 0 && v <= 1)) {
+      throw new FileOpError('crop must be { x, y, width, height } with values between 0 and 1');
+    }
+    if (crop!.width! <= 0 || crop!.height! <= 0 || crop!.x! + crop!.width! > 1 || crop!.y! + crop!.height! > 1) {
+      throw new FileOpError('crop rectangle is outside of the image');
+    }
+    options.crop = crop as CropRect;
+  }
+  if (body.saveAs !== undefined && body.saveAs !== 'backup' && body.saveAs !== 'copy') {
+    throw new FileOpError('saveAs must be "backup" or "copy"');
+  }
+  options.saveAs = body.saveAs ?? 'backup';
+  if (!options.rotate && !options.flip && !options.crop) {
+    throw new FileOpError('No transform specified');
+  }
+  return options;
+}
+
+// 另存为新文件时的文件名：name-edited.jpg、name-edited-2.jpg ...
+async function findCopyPath(absolutePath: string): Promise<string> {
+  const ext = path.extname(absolutePath);
+  const base = path.join(path.dirname(absolutePath), path.basename(absolutePath, ext));
+  for (let i = 1; ; i++) {
+    const candidate = `${base}-edited${i > 1 ? `-${i}` : ''}${ext}`;
+    try {
+      await fs.lstat(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+}
+
+// 备份文件：同目录下的隐藏文件 .name.ext.orig，只在第一次修改时创建，保留最初的版本
+async function backupOriginal(absolutePath: string): Promise<string> {
+  const backupPath = path.join(path.dirname(absolutePath), `.${path.basename(absolutePath)}.orig`);
+  try {
+    await fs.copyFile(absolutePath, backupPath, fs.constants.COPYFILE_EXCL);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+  }
+  return backupPath;
+}
+
+// 先写临时文件再替换，避免写到一半时损坏原文件
+async function writeAtomically(target: string, data: Buffer) {
+  const temp = path.join(path.dirname(target), `.${path.basename(target)}.${process.pid}.tmp`);
+  await fs.writeFile(temp, data);
+  try {
+    await fs.rename(temp, target);
+  } catch (err) {
+    await fs.rm(temp, { force: true });
+    throw err;
+  }
+}
+
+// 用 sharp 重新编码：先按 EXIF 方向摆正，再旋转、翻转、裁剪
+async function reencode(absolutePath: string, format: keyof sharp.FormatEnum, options: TransformOptions): Promise<Buffer> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(absolutePath).metadata();
+  } catch {
+    throw new FileOpError('Cannot decode this image', 415, 'UNSUPPORTED_FORMAT');
+  }
+  if ((metadata.pages ?? 1) > 1) {
+    throw new FileOpError('Animated images cannot be transformed', 415, 'UNSUPPORTED_FORMAT');
+  }
+
+  let image = sharp(absolutePath).autoOrient();
+  // sharp 总是先翻转再旋转；要得到“先旋转再翻转”的结果，旋转 90°/270° 时交换翻转方向
+  const swapAxes = options.rotate === 90 || options.rotate === 270;
+  if (options.flip) {
+    const axis = swapAxes ? (options.flip === 'horizontal' ? 'vertical' : 'horizontal') : options.flip;
+    image = axis === 'horizontal' ? image.flop() : image.flip();
+  }
+  if (options.rotate) {
+    image = image.rotate(options.rotate);
+  }
+  if (options.crop) {
+    // 摆正并旋转后的尺寸
+    let width = metadata.autoOrient?.width ?? metadata.width ?? 0;
+    let height = metadata.autoOrient?.height ?? metadata.height ?? 0;
+    if (swapAxes) [width, height] = [height, width];
+    const left = Math.round(options.crop.x * width);
+    const top = Math.round(options.crop.y * height);
+    image = image.extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(Math.round(options.crop.width * width), width - left)),
+      height: Math.max(1, Math.min(Math.round(options.crop.height * height), height - top)),
+    });
+  }
+
+  // 保留 EXIF/ICC 等元数据，方向已经摆正
+  return image
+    .keepMetadata()
+    .withMetadata({ orientation: 1 })
+    .toFormat(format, format === 'jpeg' ? { quality: JPEG_QUALITY } : undefined)
+    .toBuffer();
+}
+
+// 请求体：{ path, rotate?, flip?, crop?, saveAs? }
+// 重新编码在图片处理任务池中与查看器的大图同等优先，signal 中止时丢弃排队中的任务
+export async function transformImage(body: Record<string, unknown>, signal?: AbortSignal): Promise<TransformResult> {
+  const options = parseOptions(body);
+  // 与重命名、删除等操作一样，不能修改根目录本身和回收站中的文件
+  const { absolutePath } = await resolveExistingEntry(body.path);
+
+  const ext = path.extname(absolutePath).toLowerCase();
+  const format = WRITABLE_FORMATS[ext];
+  if (!format) {
+    throw new FileOpError(`Cannot write ${ext || 'this'} files`, 415, 'UNSUPPORTED_FORMAT');
+  }
+
+  let original: Buffer;
+  try {
+    original = await fs.readFile(absolutePath);
+  } catch {
+    throw new FileOpError(`Not a file: ${body.path}`);
+  }
+
+  const lossless = format === 'jpeg' && !options.crop;
+  let output: Buffer;
+  if (lossless) {
+    try {
+      output = setJpegOrientation(original, composeOrientation(readJpegOrientation(original), options.rotate, options.flip));
+    } catch {
+      // 文件头不是 JPEG，或 EXIF 数据损坏（偏移越界等）
+      throw new FileOpError('Cannot parse the JPEG file or its EXIF data', 415, 'UNSUPPORTED_FORMAT');
+    }
+  } else {
+    output = await getImagePool().run('viewer', () => reencode(absolutePath, format, options), signal);
+  }
+
+  let target = absolutePath;
+  let backup: string | null = null;
+  if (options.saveAs === 'copy') {
+    target = await findCopyPath(absolutePath);
+    await fs.writeFile(target, output, { flag: 'wx' });
+  } else {
+    backup = await backupOriginal(absolutePath);
+    await writeAtomically(absolutePath, output);
+    // 文件内容已变化，清除缩略图和转码缓存
+    await getThumbnailCache().invalidate(absolutePath);
+  }
+
+  return {
+    path: toClientPath(target),
+    lossless,
+    backup: backup && toClientPath(backup),
+  };
+}
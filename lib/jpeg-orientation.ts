@@ -0,0 +1,219 @@
+// JPEG 的 EXIF 方向读写：只修改 APP1 中的 Orientation 标签，不重新编码图像数据
+// 也包含方向值（1-8）与旋转/翻转操作之间的换算。
+
+// 方向值对应的变换矩阵（存储的图像 -> 显示的图像，屏幕坐标 y 轴向下），索引为方向值
+const ORIENTATION_MATRICES: [number, number, number, number][] = [
+  [1, 0, 0, 1], // 占位
+  [1, 0, 0, 1], // 1 正常
+  [-1, 0, 0, 1], // 2 水平翻转
+  [-1, 0, 0, -1], // 3 旋转 180°
+  [1, 0, 0, -1], // 4 垂直翻转
+  [0, 1, 1, 0], // 5 沿左上-右下对角线翻转
+  [0, -1, 1, 0], // 6 顺时针旋转 90°
+  [0, -1, -1, 0], // 7 沿右上-左下对角线翻转
+  [0, 1, -1, 0], // 8 顺时针旋转 270°
+];
+
+export type Rotation = 90 | 180 | 270;
+export type FlipAxis = 'horizontal' | 'vertical';
+
+function rotationMatrix(angle: Rotation): [number, number, number, number] {
+  return ORIENTATION_MATRICES[angle === 90 ? 6 : angle === 180 ? 3 : 8];
+}
+
+function flipMatrix(axis: FlipAxis): [number, number, number, number] {
+  return ORIENTATION_MATRICES[axis === 'horizontal' ? 2 : 4];
+}
+
+function multiply(a: number[], b: number[]): [number, number, number, number] {
+  return [
+    a[0] * b[0] + a[1] * b[2],
+    a[0] * b[1] + a[1] * b[3],
+    a[2] * b[0] + a[3] * b[2],
+    a[2] * b[1] + a[3] * b[3],
+  ];
+}
+
+// 在当前方向的基础上先旋转、再翻转，返回新的方向值
+export function composeOrientation(orientation: number, rotate?: Rotation, flip?: FlipAxis): number {
+  let matrix = ORIENTATION_MATRICES[orientation >= 1 && orientation <= 8 ? orientation : 1];
+  if (rotate) matrix = multiply(rotationMatrix(rotate), matrix);
+  if (flip) matrix = multiply(flipMatrix(flip), matrix);
+  const result = ORIENTATION_MATRICES.findIndex((m, i) => i > 0 && m.every((v, j) => v === matrix[j]));
+  return result > 0 ? result : 1;
+}
+
+const TAG_ORIENTATION = 0x0112;
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+
+type ExifLocation = {
+  // APP1 段（0xFFE1）的起始位置
+  segmentStart: number;
+  // TIFF 头的起始位置
+  tiffStart: number;
+  tiffLength: number;
+  littleEndian: boolean;
+};
+
+// 查找 APP1 EXIF 段；返回 null 表示没有 EXIF，insertAt 为插入新 EXIF 段的位置
+function findExif(buffer: Buffer): { exif: ExifLocation | null; insertAt: number } {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    throw new Error('Not a JPEG file');
+  }
+  let offset = 2;
+  let insertAt = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) break;
+    const marker = buffer[offset + 1];
+    // 图像数据开始
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buffer.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && buffer.subarray(offset + 4, offset + 10).equals(EXIF_HEADER)) {
+      const tiffStart = offset + 10;
+      return {
+        exif: {
+          segmentStart: offset,
+          tiffStart,
+          tiffLength: length - 8,
+          littleEndian: buffer[tiffStart] === 0x49,
+        },
+        insertAt,
+      };
+    }
+    // 新的 EXIF 段放在 JFIF（APP0）之后
+    if (marker === 0xe0) insertAt = offset + 2 + length;
+    offset += 2 + length;
+  }
+  return { exif: null, insertAt };
+}
+
+function createReader(buffer: Buffer, exif: ExifLocation) {
+  const base = exif.tiffStart;
+  return {
+    uint16: (offset: number) => exif.littleEndian ? buffer.readUInt16LE(base + offset) : buffer.readUInt16BE(base + offset),
+    uint32: (offset: number) => exif.littleEndian ? buffer.readUInt32LE(base + offset) : buffer.readUInt32BE(base + offset),
+  };
+}
+
+// 查找 IFD0 中的方向标签，返回其值在 buffer 中的位置
+function findOrientationEntry(buffer: Buffer, exif: ExifLocation): { ifd0: number; count: number; valueOffset: number | null } {
+  const read = createReader(buffer, exif);
+  const ifd0 = read.uint32(4);
+  const count = read.uint16(ifd0);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (read.uint16(entry) === TAG_ORIENTATION) {
+      return { ifd0, count, valueOffset: exif.tiffStart + entry + 8 };
+    }
+  }
+  return { ifd0, count, valueOffset: null };
+}
+
+export function readJpegOrientation(buffer: Buffer): number {
+  const { exif } = findExif(buffer);
+  if (!exif) return 1;
+  const { valueOffset } = findOrientationEntry(buffer, exif);
+  if (valueOffset === null) return 1;
+  const value = exif.littleEndian ? buffer.readUInt16LE(valueOffset) : buffer.readUInt16BE(valueOffset);
+  return value >= 1 && value <= 8 ? value : 1;
+}
+
+// 只含方向标签的最小 EXIF 段
+function createExifSegment(orientation: number): Buffer {
+  const tiff = Buffer.alloc(26);
+  tiff.write('II', 0, 'latin1');
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(8, 4);
+  tiff.writeUInt16LE(1, 8);
+  tiff.writeUInt16LE(TAG_ORIENTATION, 10);
+  tiff.writeUInt16LE(3, 12);
+  tiff.writeUInt32LE(1, 14);
+  tiff.writeUInt16LE(orientation, 18);
+  tiff.writeUInt32LE(0, 22);
+
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xffe1, 0);
+  header.writeUInt16BE(2 + EXIF_HEADER.length + tiff.length, 2);
+  return Buffer.concat([header, EXIF_HEADER, tiff]);
+}
+
+// 已有 EXIF 但没有方向标签：在 TIFF 数据末尾追加一份加入了方向标签的 IFD0，并让文件头指向它
+// 其他标签的值仍引用原来的偏移，不需要移动
+function appendOrientationEntry(buffer: Buffer, exif: ExifLocation, ifd0: number, count: number, orientation: number): Buffer {
+  const read = createReader(buffer, exif);
+  const le = exif.littleEndian;
+  const padding = exif.tiffLength % 2;
+  const newIfdOffset = exif.tiffLength + padding;
+
+  const entries: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = exif.tiffStart + ifd0 + 2 + i * 12;
+    entries.push(buffer.subarray(start, start + 12));
+  }
+  const entry = Buffer.alloc(12);
+  if (le) {
+    entry.writeUInt16LE(TAG_ORIENTATION, 0);
+    entry.writeUInt16LE(3, 2);
+    entry.writeUInt32LE(1, 4);
+    entry.writeUInt16LE(orientation, 8);
+  } else {
+    entry.writeUInt16BE(TAG_ORIENTATION, 0);
+    entry.writeUInt16BE(3, 2);
+    entry.writeUInt32BE(1, 4);
+    entry.writeUInt16BE(orientation, 8);
+  }
+  // 标签需按编号升序排列
+  const insertIndex = entries.findIndex(e => (le ? e.readUInt16LE(0) : e.readUInt16BE(0)) > TAG_ORIENTATION);
+  entries.splice(insertIndex === -1 ? entries.length : insertIndex, 0, entry);
+
+  const ifd = Buffer.alloc(2 + entries.length * 12 + 4);
+  if (le) ifd.writeUInt16LE(entries.length, 0); else ifd.writeUInt16BE(entries.length, 0);
+  entries.forEach((e, i) => e.copy(ifd, 2 + i * 12));
+  const nextIfd = read.uint32(ifd0 + 2 + count * 12);
+  if (le) ifd.writeUInt32LE(nextIfd, ifd.length - 4); else ifd.writeUInt32BE(nextIfd, ifd.length - 4);
+
+  const tiff = Buffer.concat([
+    buffer.subarray(exif.tiffStart, exif.tiffStart + exif.tiffLength),
+    Buffer.alloc(padding),
+    ifd,
+  ]);
+  if (le) tiff.writeUInt32LE(newIfdOffset, 4); else tiff.writeUInt32BE(newIfdOffset, 4);
+
+  const segmentLength = 2 + EXIF_HEADER.length + tiff.length;
+  if (segmentLength > 0xffff) {
+    throw new Error('EXIF segment is too large to add an orientation tag');
+  }
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xffe1, 0);
+  header.writeUInt16BE(segmentLength, 2);
+
+  const segmentEnd = exif.tiffStart + exif.tiffLength;
+  return Buffer.concat([
+    buffer.subarray(0, exif.segmentStart),
+    header,
+    EXIF_HEADER,
+    tiff,
+    buffer.subarray(segmentEnd),
+  ]);
+}
+
+// 返回修改了方向标签的 JPEG 数据（图像数据不变）
+export function setJpegOrientation(buffer: Buffer, orientation: number): Buffer {
+  const { exif, insertAt } = findExif(buffer);
+  if (!exif) {
+    return Buffer.concat([buffer.subarray(0, insertAt), createExifSegment(orientation), buffer.subarray(insertAt)]);
+  }
+
+  const { ifd0, count, valueOffset } = findOrientationEntry(buffer, exif);
+  if (valueOffset === null) {
+    return appendOrientationEntry(buffer, exif, ifd0, count, orientation);
+  }
+
+  const result = Buffer.from(buffer);
+  if (exif.littleEndian) {
+    result.writeUInt16LE(orientation, valueOffset);
+  } else {
+    result.writeUInt16BE(orientation, valueOffset);
+  }
+  return result;
+}
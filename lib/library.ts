@@ -0,0 +1,130 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { NextResponse } from 'next/server';
+import { expandHome, getConfig } from './config';
+
+// 图库根目录：所有 /api/fs 路由只允许访问这些目录之内的文件
+export type LibraryRoot = {
+  name: string;
+  path: string;
+};
+
+export type ResolvedPath = {
+  root: LibraryRoot;
+  absolutePath: string;
+};
+
+// 访问图库根目录之外的路径时抛出，路由统一返回 403
+export class PathAccessError extends Error {
+  constructor(message: string = 'Access denied: path is outside of the library roots') {
+    super(message);
+    this.name = 'PathAccessError';
+  }
+}
+
+type RealRoot = {
+  root: LibraryRoot;
+  realPath: string;
+};
+
+let realRootsPromise: Promise<RealRoot[]> | null = null;
+
+export function getLibraryRoots(): LibraryRoot[] {
+  return getConfig().roots;
+}
+
+// 路径统一使用正斜杠返回给前端
+export function toClientPath(p: string): string {
+  return p.replace(/\\/g, '/');
+}
+
+function isInside(parent: string, child: string): boolean {
+  const rel = path.relative(parent, child);
+  return rel === '' || (rel !== '..' && !rel.startsWith('..' + path.sep) && !path.isAbsolute(rel));
+}
+
+// 解析根目录的真实路径（跟随符号链接），不存在的根目录会被忽略
+async function getRealRoots(): Promise<RealRoot[]> {
+  if (!realRootsPromise) {
+    realRootsPromise = Promise.all(
+      getLibraryRoots().map(async root => {
+        try {
+          return { root, realPath: await fs.realpath(root.path) };
+        } catch {
+          console.warn(`Library root "${root.name}" (${root.path}) is not accessible, skipping`);
+          return null;
+        }
+      })
+    ).then(roots => roots.filter((r): r is RealRoot => r !== null));
+  }
+  return realRootsPromise;
+}
+
+// 解析符号链接的最大层数，超过时视为循环链接
+const MAX_SYMLINK_DEPTH = 40;
+
+// 获取真实路径；目标不存在时解析最近的已存在祖先目录，再拼接剩余部分。
+// 不存在的部分是悬空的符号链接时继续解析链接目标：写入这个路径会穿过链接写到目标位置
+async function realpathAllowMissing(p: string, depth: number = 0): Promise<string> {
+  if (depth > MAX_SYMLINK_DEPTH) {
+    throw new PathAccessError('Access denied: too many levels of symbolic links');
+  }
+  const missing: string[] = [];
+  let current = p;
+  while (true) {
+    try {
+      const real = await fs.realpath(current);
+      return path.join(real, ...missing.reverse());
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      const stat = await fs.lstat(current).catch(() => null);
+      if (stat?.isSymbolicLink()) {
+        // 相对的链接目标相对于链接所在的真实目录
+        const target = path.resolve(await fs.realpath(path.dirname(current)), await fs.readlink(current));
+        return path.join(await realpathAllowMissing(target, depth + 1), ...missing.reverse());
+      }
+      const parent = path.dirname(current);
+      if (parent === current) throw err;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+// 将请求中的路径解析为图库内的绝对路径
+// 支持 ~ 和绝对路径；相对路径相对于第一个根目录解析。
+// 路径（包括 .. 和符号链接解析后的真实位置）不在任何根目录之内时抛出 PathAccessError
+export async function resolveLibraryPath(input: string): Promise<ResolvedPath> {
+  const roots = await getRealRoots();
+  if (roots.length === 0) {
+    throw new PathAccessError('Access denied: no library roots are available');
+  }
+
+  const expanded = expandHome(input.trim());
+  const absolutePath = path.isAbsolute(expanded)
+    ? path.resolve(expanded)
+    : path.resolve(roots[0].root.path, expanded);
+
+  // 嵌套的根目录取最深的一个
+  const owner = roots
+    .filter(r => isInside(r.root.path, absolutePath))
+    .sort((a, b) => b.root.path.length - a.root.path.length)[0];
+  if (!owner) {
+    throw new PathAccessError();
+  }
+
+  // 真实位置必须在同一个根目录之内
+  const realPath = await realpathAllowMissing(absolutePath);
+  if (!isInside(owner.realPath, realPath)) {
+    throw new PathAccessError('Access denied: path links outside of the library roots');
+  }
+
+  return { root: owner.root, absolutePath };
+}
+
+export function forbiddenResponse(error: PathAccessError) {
+  return NextResponse.json(
+    { error: error.message, code: 'PATH_FORBIDDEN' },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,146 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfig } from './config';
+import { openImage } from './image-decoder';
+import { getImagePool } from './image-pool';
+
+// 感知哈希（dHash）：缩小为 9×8 灰度图，比较每行相邻像素的亮度得到 64 位指纹
+// 内容相同或相近的图片（重新压缩、缩放、轻微调色）指纹之间的汉明距离很小。
+// 计算结果连同文件的修改时间和大小保存在数据目录中，文件未变化时不再重新计算。
+
+export type ImageHash = {
+  // 64 位 dHash，16 位十六进制
+  hash: string;
+  width: number;
+  height: number;
+};
+
+type HashRecord = ImageHash & {
+  mtimeMs: number;
+  size: number;
+};
+
+const INDEX_FILE = 'image-hashes.json';
+// 索引修改后延迟写入磁盘，合并频繁的更新
+const INDEX_SAVE_DELAY = 5000;
+
+// 计算图片的 dHash（按 EXIF 方向摆正后计算，旋转标记不同的相同图片可以匹配）
+export async function computeImageHash(absolutePath: string): Promise<ImageHash> {
+  const image = (await openImage(absolutePath)).autoOrient();
+  const { width = 0, height = 0, autoOrient } = await image.metadata();
+  const { data } = await image
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let bits = '';
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits += data[y * 9 + x] > data[y * 9 + x + 1] ? '1' : '0';
+    }
+  }
+  const hash = BigInt(`0b${bits}`).toString(16).padStart(16, '0');
+  return { hash, width: autoOrient?.width ?? width, height: autoOrient?.height ?? height };
+}
+
+function popcount32(n: number): number {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+// 哈希拆分为高、低 32 位，批量比较时预先转换
+export function toHashWords(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8), 16)];
+}
+
+// 两个哈希之间的汉明距离（不同的位数，0-64）
+export function hashDistance(a: [number, number], b: [number, number]): number {
+  return popcount32((a[0] ^ b[0]) >>> 0) + popcount32((a[1] ^ b[1]) >>> 0);
+}
+
+class HashIndex {
+  private records = new Map<string, HashRecord>();
+  private loaded: Promise<void> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly file: string) {}
+
+  // 读取图片的哈希，文件变化或没有记录时重新计算
+  async get(absolutePath: string, stat: { mtimeMs: number; size: number }): Promise<ImageHash> {
+    await this.load();
+    const record = this.records.get(absolutePath);
+    if (record && record.mtimeMs === stat.mtimeMs && record.size === stat.size) {
+      return record;
+    }
+    const computed = await getImagePool().run('background', () => computeImageHash(absolutePath));
+    this.records.set(absolutePath, { ...computed, mtimeMs: stat.mtimeMs, size: stat.size });
+    this.scheduleSave();
+    return computed;
+  }
+
+  // 删除目录下已不存在的文件的记录
+  async prune(directory: string, existing: Set<string>): Promise<void> {
+    await this.load();
+    const prefix = directory.endsWith(path.sep) ? directory : directory + path.sep;
+    for (const absolutePath of this.records.keys()) {
+      if (absolutePath.startsWith(prefix) && !existing.has(absolutePath)) {
+        this.records.delete(absolutePath);
+        this.scheduleSave();
+      }
+    }
+  }
+
+  // 立即写入磁盘（扫描结束时调用）
+  async flush(): Promise<void> {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const saved: Record<string, HashRecord> = JSON.parse(await fs.readFile(this.file, 'utf-8'));
+          this.records = new Map(Object.entries(saved));
+        } catch {
+          // 索引不存在或已损坏，从空索引开始
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => {
+        console.error('Error saving image hash index:', error);
+      });
+    }, INDEX_SAVE_DELAY);
+    this.saveTimer.unref?.();
+  }
+
+  private async save() {
+    const tmpFile = `${this.file}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(tmpFile, JSON.stringify(Object.fromEntries(this.records)));
+    await fs.rename(tmpFile, this.file);
+  }
+}
+
+// 开发模式下模块会被重复加载，索引实例挂在 globalThis 上保证全局唯一
+const globalForIndex = globalThis as typeof globalThis & {
+  imageHashIndex?: HashIndex;
+};
+
+export function getHashIndex(): HashIndex {
+  if (!globalForIndex.imageHashIndex) {
+    globalForIndex.imageHashIndex = new HashIndex(path.join(getConfig().dataDir, INDEX_FILE));
+  }
+  return globalForIndex.imageHashIndex;
+}
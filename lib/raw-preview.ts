@@ -0,0 +1,219 @@
+import fs from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+
+// 从相机 RAW 文件中提取内嵌的 JPEG 预览图
+// 大多数 RAW（CR2/NEF/ARW/DNG/PEF/SRW/RW2 等）基于 TIFF 结构，遍历 IFD 找到最大的可解码 JPEG；
+// RAF 使用富士自己的文件头，JPEG 的位置记录在固定偏移处。
+
+export type RawPreview = {
+  data: Buffer;
+  // RAW 文件 IFD0 中的方向（1-8），内嵌预览图本身通常不带方向信息
+  orientation: number;
+};
+
+const TAG_COMPRESSION = 0x0103;
+const TAG_PHOTOMETRIC = 0x0106;
+const TAG_STRIP_OFFSETS = 0x0111;
+const TAG_ORIENTATION = 0x0112;
+const TAG_STRIP_BYTE_COUNTS = 0x0117;
+const TAG_SUB_IFDS = 0x014a;
+const TAG_JPEG_OFFSET = 0x0201;
+const TAG_JPEG_LENGTH = 0x0202;
+// Panasonic RW2 的 JpgFromRaw
+const TAG_JPG_FROM_RAW = 0x002e;
+
+// TIFF 数据类型的字节数
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4,
+};
+
+// RAW 数据使用的光度解释（CFA / LinearRaw），不是预览图
+const RAW_PHOTOMETRIC = [32803, 34892];
+
+// 遍历 IFD 的数量上限，防止损坏文件导致死循环
+const MAX_IFDS = 32;
+// 读取数组型标签值的元素上限
+const MAX_VALUES = 64;
+
+type IfdEntry = {
+  type: number;
+  count: number;
+  // 值所在的文件偏移（值不超过 4 字节时就是条目内的位置）
+  valueOffset: number;
+};
+
+type Ifd = {
+  entries: Map<number, IfdEntry>;
+  next: number;
+};
+
+type Candidate = {
+  offset: number;
+  length: number;
+};
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+class TiffReader {
+  constructor(
+    private readonly handle: FileHandle,
+    private readonly littleEndian: boolean,
+    private readonly fileSize: number
+  ) {}
+
+  private uint16(buffer: Buffer, offset: number) {
+    return this.littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+  }
+
+  private uint32(buffer: Buffer, offset: number) {
+    return this.littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+  }
+
+  async readIfd(offset: number): Promise<Ifd | null> {
+    if (offset <= 0 || offset + 2 > this.fileSize) return null;
+    const countBuffer = await readAt(this.handle, offset, 2);
+    if (countBuffer.length < 2) return null;
+    const count = this.uint16(countBuffer, 0);
+
+    const buffer = await readAt(this.handle, offset + 2, count * 12 + 4);
+    if (buffer.length < count * 12 + 4) return null;
+
+    const entries = new Map<number, IfdEntry>();
+    for (let i = 0; i < count; i++) {
+      const base = i * 12;
+      const type = this.uint16(buffer, base + 2);
+      const valueCount = this.uint32(buffer, base + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.set(this.uint16(buffer, base), {
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? offset + 2 + base + 8 : this.uint32(buffer, base + 8),
+      });
+    }
+    return { entries, next: this.uint32(buffer, count * 12) };
+  }
+
+  // 读取 SHORT/LONG 类型标签的值
+  async readValues(entry: IfdEntry | undefined): Promise<number[]> {
+    if (!entry || entry.count === 0 || entry.count > MAX_VALUES) return [];
+    const size = entry.type === 3 ? 2 : 4;
+    const buffer = await readAt(this.handle, entry.valueOffset, size * entry.count);
+    const values: number[] = [];
+    for (let i = 0; i + size <= buffer.length; i += size) {
+      values.push(size === 2 ? this.uint16(buffer, i) : this.uint32(buffer, i));
+    }
+    return values;
+  }
+}
+
+// 检查 JPEG 是否为浏览器和 libvips 能解码的格式（基线或渐进式），排除无损 JPEG 压缩的 RAW 数据
+async function isDecodableJpeg(handle: FileHandle, candidate: Candidate): Promise<boolean> {
+  const soi = await readAt(handle, candidate.offset, 2);
+  if (soi.length < 2 || soi[0] !== 0xff || soi[1] !== 0xd8) return false;
+
+  let position = candidate.offset + 2;
+  const end = candidate.offset + candidate.length;
+  for (let i = 0; i < 64 && position + 4 <= end; i++) {
+    const header = await readAt(handle, position, 4);
+    if (header.length < 4 || header[0] !== 0xff) return false;
+    const marker = header[1];
+    // SOF0 / SOF1 / SOF2
+    if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) return true;
+    // 其他 SOF（无损、算术编码等）或已到扫描数据
+    if ((marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) || marker === 0xda) {
+      return false;
+    }
+    position += 2 + header.readUInt16BE(2);
+  }
+  return false;
+}
+
+async function findTiffCandidates(handle: FileHandle, header: Buffer, fileSize: number) {
+  const littleEndian = header[0] === 0x49;
+  const reader = new TiffReader(handle, littleEndian, fileSize);
+  const firstIfd = littleEndian ? header.readUInt32LE(4) : header.readUInt32BE(4);
+
+  const candidates: Candidate[] = [];
+  let orientation = 1;
+  const queue = [firstIfd];
+  const visited = new Set<number>();
+
+  for (let index = 0; queue.length > 0 && visited.size < MAX_IFDS; index++) {
+    const offset = queue.shift()!;
+    if (visited.has(offset)) continue;
+    visited.add(offset);
+
+    const ifd = await reader.readIfd(offset);
+    if (!ifd) continue;
+    const { entries } = ifd;
+
+    if (index === 0) {
+      orientation = (await reader.readValues(entries.get(TAG_ORIENTATION)))[0] ?? 1;
+    }
+
+    // 下一个 IFD 和子 IFD
+    if (ifd.next) queue.push(ifd.next);
+    queue.push(...await reader.readValues(entries.get(TAG_SUB_IFDS)));
+
+    const [jpegOffset] = await reader.readValues(entries.get(TAG_JPEG_OFFSET));
+    const [jpegLength] = await reader.readValues(entries.get(TAG_JPEG_LENGTH));
+    if (jpegOffset && jpegLength) {
+      candidates.push({ offset: jpegOffset, length: jpegLength });
+    }
+
+    const jpgFromRaw = entries.get(TAG_JPG_FROM_RAW);
+    if (jpgFromRaw && jpgFromRaw.count > 4) {
+      candidates.push({ offset: jpgFromRaw.valueOffset, length: jpgFromRaw.count });
+    }
+
+    // JPEG 压缩的单条带图像
+    const [compression] = await reader.readValues(entries.get(TAG_COMPRESSION));
+    const [photometric] = await reader.readValues(entries.get(TAG_PHOTOMETRIC));
+    if ((compression === 6 || compression === 7) && !RAW_PHOTOMETRIC.includes(photometric)) {
+      const stripOffsets = await reader.readValues(entries.get(TAG_STRIP_OFFSETS));
+      const stripByteCounts = await reader.readValues(entries.get(TAG_STRIP_BYTE_COUNTS));
+      if (stripOffsets.length === 1 && stripByteCounts.length === 1) {
+        candidates.push({ offset: stripOffsets[0], length: stripByteCounts[0] });
+      }
+    }
+  }
+
+  return { candidates, orientation };
+}
+
+export async function extractRawPreview(absolutePath: string): Promise<RawPreview | null> {
+  const handle = await fs.open(absolutePath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const header = await readAt(handle, 0, 96);
+
+    let candidates: Candidate[] = [];
+    let orientation = 1;
+
+    if (header.subarray(0, 15).toString('latin1') === 'FUJIFILMCCD-RAW') {
+      // RAF：偏移 84 处为 JPEG 位置和长度（大端）
+      candidates = [{ offset: header.readUInt32BE(84), length: header.readUInt32BE(88) }];
+    } else if ((header[0] === 0x49 && header[1] === 0x49) || (header[0] === 0x4d && header[1] === 0x4d)) {
+      ({ candidates, orientation } = await findTiffCandidates(handle, header, fileSize));
+    } else {
+      return null;
+    }
+
+    // 选择最大的可解码预览图
+    const valid: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (candidate.length <= 0 || candidate.offset + candidate.length > fileSize) continue;
+      if (await isDecodableJpeg(handle, candidate)) valid.push(candidate);
+    }
+    if (valid.length === 0) return null;
+    const best = valid.reduce((a, b) => (b.length > a.length ? b : a));
+
+    return { data: await readAt(handle, best.offset, best.length), orientation };
+  } finally {
+    await handle.close();
+  }
+}
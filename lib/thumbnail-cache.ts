@@ -0,0 +1,288 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { getConfig } from './config';
+import { ARCHIVE_SEPARATOR } from './fs-items';
+import { ImageTaskAbortedError } from './image-pool';
+
+// 缩略图磁盘缓存
+// 缓存键由源文件绝对路径、修改时间、文件大小和缩略图参数（尺寸等）生成。
+// 源文件变化后，该文件的旧条目会在下次访问时删除；总容量超过上限时按最近最少使用（LRU）淘汰。
+
+// 源文件信息，来自 fs.stat
+export type ThumbnailSource = {
+  absolutePath: string;
+  mtimeMs: number;
+  size: number;
+};
+
+type CacheEntry = {
+  key: string;
+  sourcePath: string;
+  mtimeMs: number;
+  sourceSize: number;
+  bytes: number;
+  lastAccess: number;
+};
+
+export type ThumbnailCacheStats = {
+  dir: string;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+};
+
+const INDEX_FILE = 'index.json';
+// 索引写盘延迟，避免每次访问都写文件
+const INDEX_SAVE_DELAY = 2000;
+// 缓存文件按键的前两位分目录存放
+const SHARD_DIR_PATTERN = /^[0-9a-f]{2}$/;
+
+class ThumbnailCache {
+  // Map 保持插入顺序：最久未访问的条目在最前面
+  private entries = new Map<string, CacheEntry>();
+  // 源文件路径 -> 缓存键
+  private keysByPath = new Map<string, Set<string>>();
+  private totalBytes = 0;
+  private loaded: Promise<void> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  // 正在生成的缩略图，相同请求共享同一次生成
+  private inflight = new Map<string, Promise<Buffer>>();
+
+  constructor(private readonly dir: string, private readonly maxBytes: number) {}
+
+  // 获取缓存的缩略图，未命中时调用 generate 生成并写入缓存
+  // signal 为本次请求的中止信号：共享的生成任务因发起它的请求断开而被丢弃时，本请求仍在等待则重新生成
+  async getOrCreate(
+    source: ThumbnailSource,
+    variant: string,
+    generate: () => Promise<Buffer>,
+    signal?: AbortSignal
+  ): Promise<{ buffer: Buffer; hit: boolean }> {
+    await this.load();
+    this.invalidateStale(source);
+
+    const key = this.keyFor(source, variant);
+    if (this.entries.has(key)) {
+      try {
+        const buffer = await fs.readFile(this.fileFor(key));
+        this.touch(key);
+        return { buffer, hit: true };
+      } catch {
+        // 缓存文件被外部删除，重新生成
+        this.removeEntry(key);
+      }
+    }
+
+    for (;;) {
+      let pending = this.inflight.get(key);
+      if (!pending) {
+        pending = generate()
+          .then(async buffer => {
+            await this.store(key, source, buffer);
+            return buffer;
+          })
+          .finally(() => this.inflight.delete(key));
+        this.inflight.set(key, pending);
+      }
+      try {
+        return { buffer: await pending, hit: false };
+      } catch (error) {
+        if (!(error instanceof ImageTaskAbortedError) || signal?.aborted) throw error;
+      }
+    }
+  }
+
+  // 删除某个源文件的全部缓存条目；目录和压缩包同时删除其中全部文件的条目
+  async invalidate(absolutePath: string): Promise<void> {
+    await this.load();
+    const prefixes = [absolutePath + path.sep, absolutePath + ARCHIVE_SEPARATOR];
+    for (const [sourcePath, keys] of [...this.keysByPath]) {
+      if (sourcePath !== absolutePath && !prefixes.some(prefix => sourcePath.startsWith(prefix))) continue;
+      for (const key of [...keys]) {
+        this.removeEntry(key);
+      }
+    }
+  }
+
+  // 清空缓存
+  async clear(): Promise<void> {
+    await this.load();
+    for (const key of [...this.entries.keys()]) {
+      this.removeEntry(key);
+    }
+    await this.removeShardDirs();
+  }
+
+  async stats(): Promise<ThumbnailCacheStats> {
+    await this.load();
+    return {
+      dir: this.dir,
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.mkdir(this.dir, { recursive: true });
+        try {
+          const saved: CacheEntry[] = JSON.parse(
+            await fs.readFile(path.join(this.dir, INDEX_FILE), 'utf-8')
+          );
+          saved.sort((a, b) => a.lastAccess - b.lastAccess);
+          for (const entry of saved) {
+            this.addEntry(entry);
+          }
+        } catch {
+          // 索引不存在或已损坏：无法得知已有文件的归属，清掉后从空缓存开始
+          await this.removeShardDirs();
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private keyFor(source: ThumbnailSource, variant: string): string {
+    return crypto
+      .createHash('sha1')
+      .update(`${source.absolutePath}\0${source.mtimeMs}\0${source.size}\0${variant}`)
+      .digest('hex');
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, key.slice(0, 2), key);
+  }
+
+  // 源文件的修改时间或大小变化后，删除它的旧条目
+  private invalidateStale(source: ThumbnailSource) {
+    for (const key of this.keysByPath.get(source.absolutePath) ?? []) {
+      const entry = this.entries.get(key);
+      if (entry && (entry.mtimeMs !== source.mtimeMs || entry.sourceSize !== source.size)) {
+        this.removeEntry(key);
+      }
+    }
+  }
+
+  private async store(key: string, source: ThumbnailSource, buffer: Buffer) {
+    const file = this.fileFor(key);
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // 先写临时文件再重命名，避免读到写了一半的缩略图
+      const tmpFile = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmpFile, buffer);
+      await fs.rename(tmpFile, file);
+    } catch (error) {
+      console.error('Error writing thumbnail cache:', error);
+      return;
+    }
+
+    if (this.entries.has(key)) {
+      this.removeEntry(key, false);
+    }
+    this.addEntry({
+      key,
+      sourcePath: source.absolutePath,
+      mtimeMs: source.mtimeMs,
+      sourceSize: source.size,
+      bytes: buffer.length,
+      lastAccess: Date.now(),
+    });
+    this.evict();
+    this.scheduleSave();
+  }
+
+  private addEntry(entry: CacheEntry) {
+    this.entries.set(entry.key, entry);
+    this.totalBytes += entry.bytes;
+    let keys = this.keysByPath.get(entry.sourcePath);
+    if (!keys) {
+      keys = new Set();
+      this.keysByPath.set(entry.sourcePath, keys);
+    }
+    keys.add(entry.key);
+  }
+
+  private removeEntry(key: string, deleteFile: boolean = true) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+    const keys = this.keysByPath.get(entry.sourcePath);
+    keys?.delete(key);
+    if (keys && keys.size === 0) {
+      this.keysByPath.delete(entry.sourcePath);
+    }
+
+    if (deleteFile) {
+      fs.rm(this.fileFor(key), { force: true }).catch(error => {
+        console.error('Error removing thumbnail cache file:', error);
+      });
+    }
+    this.scheduleSave();
+  }
+
+  private touch(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    entry.lastAccess = Date.now();
+    // 重新插入，移动到最近访问的一端
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.scheduleSave();
+  }
+
+  private evict() {
+    for (const key of this.entries.keys()) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.removeEntry(key);
+    }
+  }
+
+  private async removeShardDirs() {
+    const names = await fs.readdir(this.dir).catch(() => [] as string[]);
+    await Promise.all(
+      names
+        .filter(name => SHARD_DIR_PATTERN.test(name))
+        .map(name => fs.rm(path.join(this.dir, name), { recursive: true, force: true }))
+    );
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveIndex().catch(error => {
+        console.error('Error saving thumbnail cache index:', error);
+      });
+    }, INDEX_SAVE_DELAY);
+    this.saveTimer.unref?.();
+  }
+
+  private async saveIndex() {
+    const indexFile = path.join(this.dir, INDEX_FILE);
+    const tmpFile = `${indexFile}.${process.pid}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmpFile, JSON.stringify([...this.entries.values()]));
+    await fs.rename(tmpFile, indexFile);
+  }
+}
+
+// 开发模式下模块会被重复加载，缓存实例挂在 globalThis 上保证全局唯一
+const globalForCache = globalThis as typeof globalThis & {
+  thumbnailCache?: ThumbnailCache;
+};
+
+export function getThumbnailCache(): ThumbnailCache {
+  if (!globalForCache.thumbnailCache) {
+    const config = getConfig();
+    globalForCache.thumbnailCache = new ThumbnailCache(
+      config.thumbnailCacheDir,
+      config.thumbnailCacheMaxMB * 1024 * 1024
+    );
+  }
+  return globalForCache.thumbnailCache;
+}
@@ -4,3 +4,43 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// 格式化文件大小
+export function formatFileSize(size: number) {
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+  if (size < 1024 * 1024 * 1024) return `${(size / (1024 * 1024)).toFixed(1)} MB`
+  return `${(size / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+// 原图地址；version 为文件修改后的版本号，用于绕过浏览器缓存；asShot 为按拍摄原样查看（不摆正方向、不做色彩管理）
+export function getFileUrl(path: string, version?: number, asShot = false) {
+  return `/api/fs/file?path=${encodeURIComponent(path)}${version ? `&v=${version}` : ''}${asShot ? '&view=as-shot' : ''}`
+}
+
+// 事件目标是否为可编辑的元素（输入框、下拉框等），此时按键不作为快捷键处理
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+// 预加载图片并等待解码完成（加载失败时也会 resolve）
+export function loadImage(src: string): Promise<void> {
+  const img = new window.Image()
+  img.src = src
+  return img.decode().catch(() => {})
+}
+
+// 调用文件管理接口，失败时抛出服务器返回的错误信息
+export async function postFileOp<T>(endpoint: string, body: object): Promise<T> {
+  const response = await fetch(`/api/fs/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`)
+  }
+  return data
+}
@@ -0,0 +1,57 @@
+import { spawn } from 'child_process';
+import { getConfig } from './config';
+import { UnsupportedImageError } from './image-decoder';
+
+// 使用 ffmpeg 截取视频封面帧
+
+// 封面取视频开头 1 秒处的画面，避开常见的黑场；视频不足 1 秒时取第一帧
+const POSTER_SEEK_SECONDS = [1, 0];
+// 单次截取的超时时间
+const FFMPEG_TIMEOUT = 15000;
+
+function captureFrame(absolutePath: string, seconds: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(getConfig().ffmpegPath, [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-ss', String(seconds),
+      '-i', absolutePath,
+      '-frames:v', '1',
+      '-f', 'image2pipe',
+      '-c:v', 'png',
+      'pipe:1',
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), FFMPEG_TIMEOUT);
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    ffmpeg.on('error', err => {
+      clearTimeout(timer);
+      reject((err as NodeJS.ErrnoException).code === 'ENOENT'
+        ? new UnsupportedImageError('Video poster frames require ffmpeg')
+        : err);
+    });
+    ffmpeg.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+// 返回 PNG 格式的封面帧
+export async function extractPosterFrame(absolutePath: string): Promise<Buffer> {
+  for (const seconds of POSTER_SEEK_SECONDS) {
+    const frame = await captureFrame(absolutePath, seconds);
+    if (frame.length > 0) return frame;
+  }
+  throw new Error('Failed to extract a frame from the video');
+}
@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Annotation } from './fs-items';
+
+// 导出 XMP 附属文件（与图片同名的 .xmp，Lightroom 等软件读取其中的评分、颜色标签和关键词）
+// 只覆盖本应用写出的附属文件，其他软件生成的同名文件保持不变。收藏没有对应的 XMP 字段，不导出。
+
+const XMP_TOOLKIT = 'WebPicViewer';
+
+// Lightroom 默认的颜色标签名称
+const LABEL_NAMES: Record<string, string> = {
+  red: 'Red',
+  yellow: 'Yellow',
+  green: 'Green',
+  blue: 'Blue',
+  purple: 'Purple',
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// 附属文件路径：IMG_0001.jpg -> IMG_0001.xmp
+export function getXmpSidecarPath(absolutePath: string): string {
+  const ext = path.extname(absolutePath);
+  return absolutePath.slice(0, absolutePath.length - ext.length) + '.xmp';
+}
+
+export function buildXmp(annotation: Annotation): string {
+  const attributes = [
+    `xmp:Rating="${annotation.rating}"`,
+    ...(annotation.label ? [`xmp:Label="${LABEL_NAMES[annotation.label]}"`] : []),
+  ];
+  const subject = annotation.tags.length > 0
+    ? [
+      '   <dc:subject>',
+      '    <rdf:Bag>',
+      ...annotation.tags.map(tag => `     <rdf:li>${escapeXml(tag)}</rdf:li>`),
+      '    </rdf:Bag>',
+      '   </dc:subject>',
+    ]
+    : [];
+  return [
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/" x:xmptk="${XMP_TOOLKIT}">`,
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    `    ${attributes.join('\n    ')}>`,
+    ...subject,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '',
+  ].join('\n');
+}
+
+// 写出附属文件；已存在其他软件生成的同名文件时跳过并返回 false。
+// sidecar 须已经过 resolveLibraryPath 校验：同名的符号链接可能指向图库之外
+export async function writeXmpSidecar(sidecar: string, annotation: Annotation): Promise<boolean> {
+  try {
+    const existing = await fs.readFile(sidecar, 'utf-8');
+    if (!existing.includes(`x:xmptk="${XMP_TOOLKIT}"`)) return false;
+  } catch {
+    // 不存在，直接写入
+  }
+  await fs.writeFile(sidecar, buildXmp(annotation));
+  return true;
+}
@@ -0,0 +1,380 @@
+import fs from 'fs/promises';
+import { createReadStream, type Stats } from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { Readable, Transform, pipeline } from 'stream';
+import { NextResponse } from 'next/server';
+import { getEntityTag } from './http';
+import { resolveLibraryPath, type ResolvedPath } from './library';
+import { isArchiveExt } from './image-formats';
+import { ARCHIVE_SEPARATOR, naturalCompare } from './fs-items';
+
+// 把 ZIP/CBZ 压缩包当作只读目录浏览
+// 压缩包内的条目使用虚拟路径 book.cbz!/chapter1/page001.jpg，不解压到磁盘，读取时直接从压缩包中解码。
+// 只支持存储和 Deflate 两种压缩方式，加密的条目不可读取。
+
+export type ZipFileEntry = {
+  // 包内路径（/ 分隔，目录以 / 结尾）
+  name: string;
+  method: number;
+  encrypted: boolean;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+  mtime: Date;
+};
+
+type ZipDirectory = {
+  entries: ZipFileEntry[];
+  // 包内路径 -> 条目
+  byName: Map<string, ZipFileEntry>;
+};
+
+// 解析后的虚拟路径
+export type ArchiveLocation = ResolvedPath & {
+  // 包内路径，空字符串表示压缩包根目录
+  entryPath: string;
+  archiveStat: Stats;
+};
+
+export class ArchiveError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export function archiveErrorResponse(error: ArchiveError) {
+  return NextResponse.json(
+    { error: error.message },
+    { status: error.status }
+  );
+}
+
+const END_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const MAX_UINT32 = 0xffffffff;
+// 结束记录（22 字节）加最长 64 KB 的注释
+const END_SEARCH_SIZE = 22 + 0xffff;
+// 最近读取过的压缩包目录，翻页时不必重复解析
+const MAX_CACHED_DIRECTORIES = 20;
+// 读入内存（生成缩略图、转码）的条目的最大解压后大小
+const MAX_BUFFERED_ENTRY_SIZE = 256 * 1024 * 1024;
+// macOS 压缩时附带的资源分支目录
+const IGNORED_PREFIXES = ['__MACOSX/'];
+
+const directoryCache = new Map<string, Promise<ZipDirectory>>();
+
+// 拆分虚拟路径；不是压缩包内的路径时返回 null
+export function splitArchivePath(input: string): { archivePath: string; entryPath: string } | null {
+  const normalized = input.replace(/\\/g, '/');
+  let searchFrom = 0;
+  while (true) {
+    const index = normalized.indexOf(ARCHIVE_SEPARATOR, searchFrom);
+    if (index === -1) return null;
+    const archivePath = normalized.slice(0, index);
+    if (isArchiveExt(path.extname(archivePath))) {
+      // 包内路径去掉多余的斜杠，目录不带结尾的 /
+      const entryPath = normalized.slice(index + ARCHIVE_SEPARATOR.length).split('/').filter(Boolean).join('/');
+      if (entryPath.split('/').includes('..')) {
+        throw new ArchiveError('Invalid archive entry path');
+      }
+      return { archivePath, entryPath };
+    }
+    searchFrom = index + 1;
+  }
+}
+
+// 条目的缓存键（缩略图缓存等使用），与磁盘上的路径形式相同
+export function toArchiveCacheKey(location: ArchiveLocation): string {
+  return `${location.absolutePath}${ARCHIVE_SEPARATOR}${location.entryPath}`;
+}
+
+// 条目的 ETag：压缩包修改后随之改变，同一压缩包内的条目以偏移区分
+export function getArchiveEntityTag(location: ArchiveLocation, entry: ZipFileEntry): string {
+  return `${getEntityTag(location.archiveStat).slice(0, -1)}-${entry.localHeaderOffset.toString(16)}"`;
+}
+
+function toDate(dosTime: number, dosDate: number): Date {
+  return new Date(
+    ((dosDate >> 9) & 0x7f) + 1980,
+    ((dosDate >> 5) & 0x0f) - 1,
+    dosDate & 0x1f,
+    (dosTime >> 11) & 0x1f,
+    (dosTime >> 5) & 0x3f,
+    (dosTime & 0x1f) * 2
+  );
+}
+
+// 文件名：标志位 11 表示 UTF-8；否则先按 UTF-8 尝试，无效时按 GBK（常见于中文系统创建的压缩包）
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+const gbkDecoder = new TextDecoder('gbk');
+function decodeName(bytes: Buffer, utf8: boolean): string {
+  if (utf8) return bytes.toString('utf-8');
+  try {
+    return utf8Decoder.decode(bytes);
+  } catch {
+    return gbkDecoder.decode(bytes);
+  }
+}
+
+async function readAt(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// 读取中央目录
+async function parseDirectory(absolutePath: string, stat: Stats): Promise<ZipDirectory> {
+  const handle = await fs.open(absolutePath, 'r');
+  try {
+    const tailStart = Math.max(0, stat.size - END_SEARCH_SIZE);
+    const tail = await readAt(handle, tailStart, stat.size - tailStart);
+    let endOffset = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_SIGNATURE) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset === -1) {
+      throw new ArchiveError('Not a valid ZIP archive', 415);
+    }
+
+    let count = tail.readUInt16LE(endOffset + 10);
+    let centralSize = tail.readUInt32LE(endOffset + 12);
+    let centralOffset = tail.readUInt32LE(endOffset + 16);
+
+    // ZIP64：结束记录之前是 ZIP64 定位记录
+    if (endOffset >= 20 && tail.readUInt32LE(endOffset - 20) === ZIP64_LOCATOR_SIGNATURE) {
+      const zip64EndOffset = Number(tail.readBigUInt64LE(endOffset - 20 + 8));
+      const zip64End = await readAt(handle, zip64EndOffset, 56);
+      if (zip64End.length === 56 && zip64End.readUInt32LE(0) === ZIP64_END_SIGNATURE) {
+        count = Number(zip64End.readBigUInt64LE(32));
+        centralSize = Number(zip64End.readBigUInt64LE(40));
+        centralOffset = Number(zip64End.readBigUInt64LE(48));
+      }
+    }
+
+    // 大小和位置来自压缩包本身，超出文件范围时不按它分配内存
+    if (centralOffset + centralSize > stat.size) {
+      throw new ArchiveError('Corrupted ZIP central directory', 415);
+    }
+    const central = await readAt(handle, centralOffset, centralSize);
+    const entries: ZipFileEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < count && offset + 46 <= central.length; i++) {
+      if (central.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new ArchiveError('Corrupted ZIP central directory', 415);
+      }
+      const flags = central.readUInt16LE(offset + 8);
+      const nameLength = central.readUInt16LE(offset + 28);
+      const extraLength = central.readUInt16LE(offset + 30);
+      const commentLength = central.readUInt16LE(offset + 32);
+      let compressedSize = central.readUInt32LE(offset + 20);
+      let size = central.readUInt32LE(offset + 24);
+      let localHeaderOffset = central.readUInt32LE(offset + 42);
+
+      // ZIP64 扩展字段：只包含值为 0xFFFFFFFF 的字段
+      const extra = central.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength);
+      for (let e = 0; e + 4 <= extra.length;) {
+        const id = extra.readUInt16LE(e);
+        const length = extra.readUInt16LE(e + 2);
+        if (id === 0x0001) {
+          let p = e + 4;
+          if (size === MAX_UINT32) { size = Number(extra.readBigUInt64LE(p)); p += 8; }
+          if (compressedSize === MAX_UINT32) { compressedSize = Number(extra.readBigUInt64LE(p)); p += 8; }
+          if (localHeaderOffset === MAX_UINT32) { localHeaderOffset = Number(extra.readBigUInt64LE(p)); }
+        }
+        e += 4 + length;
+      }
+
+      const name = decodeName(central.subarray(offset + 46, offset + 46 + nameLength), (flags & 0x0800) !== 0)
+        .replace(/\\/g, '/');
+      entries.push({
+        name,
+        method: central.readUInt16LE(offset + 10),
+        encrypted: (flags & 0x0001) !== 0,
+        compressedSize,
+        size,
+        localHeaderOffset,
+        mtime: toDate(central.readUInt16LE(offset + 12), central.readUInt16LE(offset + 14)),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    const visible = entries.filter(entry =>
+      !IGNORED_PREFIXES.some(prefix => entry.name.startsWith(prefix))
+      && !entry.name.split('/').includes('..')
+    );
+    return {
+      entries: visible,
+      byName: new Map(visible.map(entry => [entry.name.replace(/\/$/, ''), entry])),
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+// 读取压缩包目录（带缓存，压缩包修改后重新读取）
+function loadDirectory(absolutePath: string, stat: Stats): Promise<ZipDirectory> {
+  const key = `${absolutePath}:${stat.mtimeMs}:${stat.size}`;
+  let pending = directoryCache.get(key);
+  if (pending) {
+    // 移到末尾，最久未使用的在最前面
+    directoryCache.delete(key);
+  } else {
+    pending = parseDirectory(absolutePath, stat);
+    pending.catch(() => directoryCache.delete(key));
+  }
+  directoryCache.set(key, pending);
+  if (directoryCache.size > MAX_CACHED_DIRECTORIES) {
+    directoryCache.delete(directoryCache.keys().next().value!);
+  }
+  return pending;
+}
+
+// 解析虚拟路径或压缩包本身的路径；不是压缩包路径时返回 null
+export async function resolveArchiveLocation(input: string): Promise<ArchiveLocation | null> {
+  const split = splitArchivePath(input);
+  const archiveInput = split ? split.archivePath : input;
+  if (!split && !isArchiveExt(path.extname(input))) return null;
+
+  const resolved = await resolveLibraryPath(archiveInput);
+  let archiveStat: Stats;
+  try {
+    archiveStat = await fs.stat(resolved.absolutePath);
+  } catch {
+    throw new ArchiveError('Archive not found', 404);
+  }
+  // 扩展名为 .zip 的目录按普通目录处理
+  if (!archiveStat.isFile()) {
+    if (split) throw new ArchiveError('Archive not found', 404);
+    return null;
+  }
+  return { ...resolved, entryPath: split?.entryPath ?? '', archiveStat };
+}
+
+// 列出压缩包内某个目录的直接子条目；中间目录在压缩包中可能没有单独的条目，根据文件路径补全
+export async function listArchiveDirectory(location: ArchiveLocation): Promise<{ name: string; isDirectory: boolean; size: number; mtimeMs: number }[]> {
+  const directory = await loadDirectory(location.absolutePath, location.archiveStat);
+  const prefix = location.entryPath ? `${location.entryPath}/` : '';
+  if (prefix && !directory.entries.some(entry => entry.name.startsWith(prefix))) {
+    throw new ArchiveError('Directory not found in archive', 404);
+  }
+
+  const children = new Map<string, { name: string; isDirectory: boolean; size: number; mtimeMs: number }>();
+  for (const entry of directory.entries) {
+    if (!entry.name.startsWith(prefix) || entry.name === prefix) continue;
+    const rest = entry.name.slice(prefix.length);
+    const slash = rest.indexOf('/');
+    const name = slash === -1 ? rest : rest.slice(0, slash);
+    if (!name || name.startsWith('.')) continue;
+    const isDirectory = slash !== -1;
+    const existing = children.get(name);
+    if (existing && !isDirectory) continue;
+    children.set(name, {
+      name,
+      isDirectory,
+      size: isDirectory ? 0 : entry.size,
+      mtimeMs: isDirectory && existing ? existing.mtimeMs : entry.mtime.getTime(),
+    });
+  }
+  return [...children.values()].sort((a, b) => naturalCompare(a.name, b.name));
+}
+
+// 查找文件条目
+export async function getArchiveEntry(location: ArchiveLocation): Promise<ZipFileEntry> {
+  const directory = await loadDirectory(location.absolutePath, location.archiveStat);
+  const entry = directory.byName.get(location.entryPath);
+  if (!entry || entry.name.endsWith('/')) {
+    throw new ArchiveError('File not found in archive', 404);
+  }
+  if (entry.encrypted) {
+    throw new ArchiveError('Encrypted archive entries are not supported', 415);
+  }
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new ArchiveError(`Unsupported compression method: ${entry.method}`, 415);
+  }
+  return entry;
+}
+
+// 以流的形式读取条目内容（边读边解压）
+export async function openArchiveEntryStream(location: ArchiveLocation, entry: ZipFileEntry): Promise<Readable> {
+  // 本地文件头中的文件名和扩展字段长度可能与中央目录不同，需要重新读取
+  const handle = await fs.open(location.absolutePath, 'r');
+  let header: Buffer;
+  try {
+    header = await readAt(handle, entry.localHeaderOffset, 30);
+  } finally {
+    await handle.close();
+  }
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new ArchiveError('Corrupted ZIP entry', 415);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  // 打开文件流之前检查完毕，出错时不会留下未关闭的文件
+  if (dataStart + entry.compressedSize > location.archiveStat.size
+    || (entry.method === METHOD_STORED && entry.compressedSize !== entry.size)) {
+    throw new ArchiveError('Corrupted ZIP entry', 415);
+  }
+
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+  const raw = createReadStream(location.absolutePath, {
+    start: dataStart,
+    end: dataStart + entry.compressedSize - 1,
+  });
+  if (entry.method === METHOD_STORED) {
+    return raw;
+  }
+
+  // 解压结果不能超过中央目录中声明的大小，防止很小的条目解压出几 GB 的数据（压缩炸弹）
+  let outputSize = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      outputSize += chunk.length;
+      if (outputSize > entry.size) {
+        callback(new ArchiveError('Archive entry is larger than its declared size', 415));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+  // 任何一个流出错或提前关闭时销毁全部的流，错误传给读取方
+  return pipeline(raw, zlib.createInflateRaw(), limit, () => {});
+}
+
+// 读取整个条目（用于生成缩略图等）
+export async function readArchiveEntry(location: ArchiveLocation, entry: ZipFileEntry): Promise<Buffer> {
+  if (entry.size > MAX_BUFFERED_ENTRY_SIZE) {
+    throw new ArchiveError('Archive entry is too large to decode', 413);
+  }
+  const chunks: Buffer[] = [];
+  try {
+    for await (const chunk of await openArchiveEntryStream(location, entry)) {
+      chunks.push(chunk as Buffer);
+    }
+  } catch (err) {
+    // zlib 的错误（Z_DATA_ERROR 等）说明压缩数据损坏
+    if (String((err as NodeJS.ErrnoException).code).startsWith('Z_')) {
+      throw new ArchiveError('Corrupted ZIP entry', 415);
+    }
+    throw err;
+  }
+  return Buffer.concat(chunks);
+}
+
+// 解析压缩包内文件的虚拟路径；不是虚拟路径时返回 null
+export async function resolveArchiveFile(input: string): Promise<{ location: ArchiveLocation; entry: ZipFileEntry } | null> {
+  if (!splitArchivePath(input)) return null;
+  const location = await resolveArchiveLocation(input);
+  if (!location) return null;
+  return { location, entry: await getArchiveEntry(location) };
+}
@@ -0,0 +1,252 @@
+import fs from 'fs/promises';
+import zlib from 'zlib';
+
+// 流式生成 ZIP：逐个读取文件并立即输出，不在内存中缓存整个压缩包
+// 图片和视频本身已经压缩，条目统一使用存储方式（不压缩）；CRC 在读取时计算，写在每个条目之后的数据描述符中。
+// 超过 4 GB 的文件或条目很多时使用 ZIP64 扩展。
+
+export type ZipEntry = {
+  // 压缩包内的路径，用 / 分隔；目录以 / 结尾
+  name: string;
+  // 文件的磁盘路径，目录和内存中的文件为 null
+  absolutePath: string | null;
+  // 内存中的文件内容（如导出时生成的图片）
+  data?: Buffer;
+  mtime: Date;
+  // Unix 权限位（含文件类型）
+  mode: number;
+};
+
+type CentralRecord = {
+  name: Buffer;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  offset: number;
+  mode: number;
+  directory: boolean;
+  zip64: boolean;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const END_SIGNATURE = 0x06054b50;
+
+// 通用标志：第 3 位 使用数据描述符，第 11 位 文件名为 UTF-8
+const FLAGS = 0x0808;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+// 高字节 3 表示 Unix，外部属性中保存权限位
+const VERSION_MADE_BY = (3 << 8) | VERSION_ZIP64;
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+// MS-DOS 目录属性
+const DOS_DIRECTORY = 0x10;
+
+// MS-DOS 格式的日期和时间（本地时间，精度 2 秒，最早 1980 年）
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function writeUInt64LE(buffer: Buffer, value: number, offset: number) {
+  buffer.writeBigUInt64LE(BigInt(value), offset);
+}
+
+function createLocalHeader(record: CentralRecord): Buffer {
+  // ZIP64 条目在本地文件头中用 0xFFFFFFFF 占位，并附带 ZIP64 扩展字段
+  const extra = Buffer.alloc(record.zip64 ? 20 : 0);
+  if (record.zip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(16, 2);
+  }
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(record.zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+  header.writeUInt16LE(FLAGS, 6);
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  // CRC 和大小写在数据描述符中
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(record.zip64 ? MAX_UINT32 : 0, 18);
+  header.writeUInt32LE(record.zip64 ? MAX_UINT32 : 0, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function createDataDescriptor(record: CentralRecord): Buffer {
+  // 读取过程中文件变大超过 4 GB 时也使用 64 位大小
+  const zip64 = record.zip64 || record.size >= MAX_UINT32;
+  const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(record.crc, 4);
+  if (zip64) {
+    writeUInt64LE(descriptor, record.size, 8);
+    writeUInt64LE(descriptor, record.size, 16);
+  } else {
+    descriptor.writeUInt32LE(record.size, 8);
+    descriptor.writeUInt32LE(record.size, 12);
+  }
+  return descriptor;
+}
+
+function createCentralHeader(record: CentralRecord): Buffer {
+  // 超出 32 位的字段写入 ZIP64 扩展字段（顺序：原始大小、压缩后大小、本地文件头偏移）
+  const large = [record.size, record.size, record.offset].map(value => value >= MAX_UINT32);
+  const zip64Values = [record.size, record.size, record.offset].filter((_, i) => large[i]);
+  const extra = Buffer.alloc(zip64Values.length > 0 ? 4 + zip64Values.length * 8 : 0);
+  if (zip64Values.length > 0) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(zip64Values.length * 8, 2);
+    zip64Values.forEach((value, i) => writeUInt64LE(extra, value, 4 + i * 8));
+  }
+
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION_MADE_BY, 4);
+  header.writeUInt16LE(record.zip64 || zip64Values.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+  header.writeUInt16LE(FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(large[1] ? MAX_UINT32 : record.size, 20);
+  header.writeUInt32LE(large[0] ? MAX_UINT32 : record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  header.writeUInt16LE(0, 32);
+  header.writeUInt16LE(0, 34);
+  header.writeUInt16LE(0, 36);
+  header.writeUInt32LE((((record.mode & 0xffff) << 16) | (record.directory ? DOS_DIRECTORY : 0)) >>> 0, 38);
+  header.writeUInt32LE(large[2] ? MAX_UINT32 : record.offset, 42);
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function createEndRecords(count: number, centralOffset: number, centralSize: number): Buffer {
+  const needsZip64 = count >= MAX_UINT16 || centralOffset >= MAX_UINT32 || centralSize >= MAX_UINT32;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_SIGNATURE, 0);
+  end.writeUInt16LE(Math.min(count, MAX_UINT16), 8);
+  end.writeUInt16LE(Math.min(count, MAX_UINT16), 10);
+  end.writeUInt32LE(Math.min(centralSize, MAX_UINT32), 12);
+  end.writeUInt32LE(Math.min(centralOffset, MAX_UINT32), 16);
+  if (!needsZip64) return end;
+
+  const zip64End = Buffer.alloc(56);
+  zip64End.writeUInt32LE(ZIP64_END_SIGNATURE, 0);
+  writeUInt64LE(zip64End, 44, 4);
+  zip64End.writeUInt16LE(VERSION_MADE_BY, 12);
+  zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+  writeUInt64LE(zip64End, count, 24);
+  writeUInt64LE(zip64End, count, 32);
+  writeUInt64LE(zip64End, centralSize, 40);
+  writeUInt64LE(zip64End, centralOffset, 48);
+
+  const locator = Buffer.alloc(20);
+  locator.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, 0);
+  writeUInt64LE(locator, centralOffset + centralSize, 8);
+  locator.writeUInt32LE(1, 16);
+  return Buffer.concat([zip64End, locator, end]);
+}
+
+// 依次输出压缩包的各个部分；无法打开的文件（如已被删除）跳过
+export async function* createZipStream(entries: AsyncIterable<ZipEntry>): AsyncGenerator<Buffer> {
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const directory = entry.absolutePath === null && !entry.data;
+    let handle: fs.FileHandle | null = null;
+    let size = entry.data?.length ?? 0;
+    if (entry.absolutePath !== null) {
+      try {
+        handle = await fs.open(entry.absolutePath!, 'r');
+        size = (await handle.stat()).size;
+      } catch {
+        await handle?.close();
+        continue;
+      }
+    }
+
+    const record: CentralRecord = {
+      name: Buffer.from(entry.name, 'utf-8'),
+      ...toDosDateTime(entry.mtime),
+      crc: 0,
+      size: 0,
+      offset,
+      mode: entry.mode,
+      directory,
+      zip64: size >= MAX_UINT32,
+    };
+    const localHeader = createLocalHeader(record);
+    offset += localHeader.length;
+    yield localHeader;
+
+    if (entry.data) {
+      record.crc = zlib.crc32(entry.data);
+      record.size = entry.data.length;
+      offset += entry.data.length;
+      yield entry.data;
+    } else if (handle) {
+      try {
+        for await (const chunk of handle.createReadStream({ autoClose: false })) {
+          record.crc = zlib.crc32(chunk as Buffer, record.crc);
+          record.size += (chunk as Buffer).length;
+          offset += (chunk as Buffer).length;
+          yield chunk as Buffer;
+        }
+      } finally {
+        await handle.close();
+      }
+    }
+
+    const descriptor = createDataDescriptor(record);
+    offset += descriptor.length;
+    yield descriptor;
+    records.push(record);
+  }
+
+  const centralOffset = offset;
+  for (const record of records) {
+    const header = createCentralHeader(record);
+    offset += header.length;
+    yield header;
+  }
+  yield createEndRecords(records.length, centralOffset, offset - centralOffset);
+}
+
+// 包装为响应流（边生成边发送）；客户端断开时停止读取文件或生成条目
+export function createZipResponseStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const chunks = createZipStream(entries);
+  let cancelled = false;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await chunks.next();
+        // 等待读取期间客户端已断开
+        if (cancelled) return;
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(new Uint8Array(next.value));
+        }
+      } catch (error) {
+        console.error('Error creating archive:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      cancelled = true;
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // heic-decode 通过 libheif-js 加载 wasm，不经过打包
+  serverExternalPackages: ['heic-decode', 'libheif-js'],
   images: {
     remotePatterns: [
       {
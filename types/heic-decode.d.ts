@@ -0,0 +1,12 @@
+declare module 'heic-decode' {
+  type DecodedImage = {
+    width: number;
+    height: number;
+    // RGBA 像素数据
+    data: Uint8ClampedArray;
+  };
+
+  function decode(options: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedImage>;
+
+  export default decode;
+}